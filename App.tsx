@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import QRCode from 'qrcode';
 import { 
   LayoutDashboard, 
   Coffee, 
@@ -21,6 +22,8 @@ import {
   Package,
   ChefHat,
   Receipt,
+  Pause,
+  Zap,
   FileText,
   Clock,
   BellRing,
@@ -39,7 +42,16 @@ import {
   Phone,
   Upload,
   Menu,
-  X
+  X,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  ListOrdered,
+  Lightbulb,
+  QrCode,
+  Banknote,
+  Percent,
+  CheckCircle
 } from 'lucide-react';
 import { db, initializeStore } from './services/firebase';
 import { 
@@ -55,7 +67,10 @@ import {
   orderBy,
   getDoc,
   runTransaction,
-  deleteField
+  deleteField,
+  arrayUnion,
+  increment,
+  limit
 } from 'firebase/firestore';
 import { 
   BarChart, 
@@ -68,83 +83,46 @@ import {
   LineChart, 
   Line 
 } from 'recharts';
-import { User, Product, Table, Transaction, CartItem, Variant, Ingredient, RecipeItem, Shift, Operator, StoreSettings } from './types';
+import { User, Product, Table, Transaction, CartItem, Variant, Ingredient, RecipeItem, Shift, Operator, StoreSettings, RateSchedule, RateBand, PriceSegment, BillingRules, Reservation, WaitlistEntry, SplitMode, SplitPayment, ExpiryWarningSettings, LampDevice, LampProtocol, LampStatusIssue, LampDeviceHealth, LampLogEntry, LampControllerLease, LampAction, TableActuator, ActuatorKind, MaintenanceLogEntry, MaintenanceType, CustomerCredit, TenderPayment, PaymentMethod, Promotion, PromotionType, PromotionAuditEntry, TaxSettings, RoundingMode } from './types';
 import { BluetoothPrinter } from './components/BluetoothPrinter';
-
-// --- Lamp control helpers ---
-const LAMP_BASE_URL = 'http://192.168.100.120/led';
-
-function TABLE_LAMP_URL(num: number, action: 'on' | 'off' | 'toggle' = 'toggle', durationSec?: number) {
-  let u = `${LAMP_BASE_URL}?num=${num}&action=${action}`;
-  if (durationSec && durationSec > 0) u += `&duration=${durationSec}`;
-  return u;
-}
-
-// Control lamp with action: 'on' | 'off' | 'toggle', optionally with duration (seconds)
-async function controlLamp(num: number, action: 'on' | 'off' | 'toggle' = 'toggle', durationSec?: number, timeout = 5000): Promise<{ ok: boolean; status?: number; text?: string; error?: string }> {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-  const url = TABLE_LAMP_URL(num, action, durationSec);
-  try {
-    const res = await fetch(url, { method: 'GET', mode: 'cors', cache: 'no-store', signal: controller.signal });
-    clearTimeout(id);
-    const text = await res.text().catch(() => undefined);
-    return { ok: res.ok, status: res.status, text };
-  } catch (err: any) {
-    clearTimeout(id);
-    return { ok: false, error: err.name === 'AbortError' ? 'timeout' : String(err) };
-  }
-}
-
-// Use table-specific URLs if provided, else fallback to controlLamp using numeric endpoint
-async function controlLampForTable(table: Table, action: 'on' | 'off' | 'toggle' = 'toggle', durationSec?: number) {
-  try {
-    // prefer explicit URLs configured per table
-    let url: string | undefined;
-    if (action === 'on' && table.remoteOn) url = table.remoteOn;
-    else if (action === 'off' && table.remoteOff) url = table.remoteOff;
-    else if (action === 'toggle' && table.remoteToggle) url = table.remoteToggle;
-
-    if (url) {
-      if (durationSec && durationSec > 0) {
-        // append duration param if not present
-        url += (url.includes('?') ? '&' : '?') + `duration=${durationSec}`;
-      }
-      const controller = new AbortController();
-      const id = setTimeout(() => controller.abort(), 5000);
-      try {
-        const res = await fetch(url, { method: 'GET', mode: 'cors', signal: controller.signal });
-        clearTimeout(id);
-        const text = await res.text().catch(() => undefined);
-        return { ok: res.ok, status: res.status, text };
-      } catch (err: any) {
-        clearTimeout(id);
-        return { ok: false, error: err.name === 'AbortError' ? 'timeout' : String(err) };
-      }
-    }
-
-    // fallback: derive number and use default endpoint
-    // try to infer number from name or tables ordering (best-effort)
-    // Caller may pass table with name and rely on deriveTableNumber elsewhere
-    const inferredNum = deriveTableNumber(table.name, 0);
-    return controlLamp(inferredNum, action, durationSec);
-  } catch (e: any) {
-    return { ok: false, error: String(e) };
-  }
-}
-
-// Derive table number from table name (e.g. "Meja 1") or fallback to index+1
-function deriveTableNumber(tableName: string | undefined, index: number) {
-  if (!tableName) return index + 1;
-  const m = tableName.match(/(\d+)/);
-  if (m) return Number(m[1]);
-  return index + 1;
-}
+import { findTableConflicts, getNextReservation, reservationEnd, buildDepositTransaction, DEPOSIT_STATUS_LABEL, BookingConflict } from './services/reservations';
+import { estimateWaits, getSeatingOptions } from './services/waitlist';
+import { createLampController, getDeviceId, enqueueLampCommand, lampDeviceCollection, lampStatusCollection, getDesiredLampState, resolveTableLamp, lampHealthCollection, lampLogCollection, lampLeaseRef, pingLampDevice, deriveTableNumber, LEGACY_LAMP_DEVICE, LAMP_PROTOCOL_LABEL } from './services/lamp';
+import { LAMP_SIMULATOR_ENABLED, SIMULATOR_DEVICE, isSimulatorUrl, getSimulatedChannels, isSimulatorOffline, rebootSimulator, setSimulatorOffline, subscribeSimulator } from './services/lampSimulator';
+import { getTableActuators, createActuator, PRIMARY_LAMP_ID, ACTUATOR_KIND_LABEL, ACTUATOR_TRIGGER_LABEL, ACTUATOR_TRIGGERS } from './services/actuators';
+import { maintenanceLogCollection, getMaintenanceDue, getHoursSinceService, getTablePlayedMs, MaintenanceDue, MAINTENANCE_TYPE_LABEL, DEFAULT_MAINTENANCE_INTERVALS } from './services/maintenance';
+import { collectDueWarnings, playChime, DEFAULT_EXPIRY_WARNINGS, ExpiryWarning } from './services/expiryWarnings';
+import { getSplitShares, validateSplit, SPLIT_MODE_LABEL } from './services/splitBill';
+import { computeCharges, getLineCharge, DEFAULT_TAX_SETTINGS, TABLE_RENTAL_CATEGORY, ROUNDING_MODE_LABEL } from './services/tax';
+import { buildDynamicQris, validateQris, getQrisMerchantName } from './services/qris';
+import { promotionCollection, promotionAuditCollection, PROMOTION_TYPE_LABEL, NEW_PROMOTION, applyPromotions, getPromotionBlocker, describePromotion, normalizePromoCode } from './services/promotions';
+import { PAYMENT_METHOD_LABEL, PAYMENT_METHODS, getTransactionPayments, sumByTender, settleTenders, validateTenders, buildPayments, getMainTender, getPayerTenders } from './services/tenders';
+import { sessionCollection, sessionRef, sessionEvent, sessionEventUpdate, newSessionData, recordSessionEvent, closeSession } from './services/sessions';
+import { getElapsedMinutes, getPlayedMs, getTabTotal, getTableSchedule, findRate, quoteTableCharge, getUnusedTimeRefund, DEFAULT_BILLING_RULES, WEEKDAY_LABELS } from './services/pricing';
 
 // --- Types & Constants ---
 const STORE_KEY = 'zyra_store_id';
 const SHIFT_KEY = 'zyra_active_shift';
 
+// Fields written to a table doc when its session ends (stop, move origin, expiry, settle)
+const AVAILABLE_TABLE_FIELDS = {
+  status: 'available',
+  startTime: 0,
+  endTime: 0,
+  duration: 0,
+  currentCustomer: '',
+  openPlay: false,
+  paidAmount: 0,
+  sessionTransactionIds: [],
+  sessionId: '',
+  pausedAt: 0,
+  pausedTotalMs: 0,
+  tab: []
+};
+
+// Customer credit docs are keyed by normalized customer name
+const customerCreditId = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'pelanggan';
+
 // --- Helper Components ---
 
 interface ModalProps {
@@ -260,7 +238,7 @@ const App: React.FC = () => {
     };
   const [storeId, setStoreId] = useState<string | null>(localStorage.getItem(STORE_KEY));
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'billiard' | 'cafe' | 'inventory' | 'settings' | 'history'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'billiard' | 'cafe' | 'booking' | 'inventory' | 'settings' | 'history' | 'devices'>('dashboard');
   
   // Data State
   const [products, setProducts] = useState<Product[]>([]);
@@ -269,6 +247,14 @@ const App: React.FC = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [operators, setOperators] = useState<Operator[]>([]); 
+  const [rateSchedules, setRateSchedules] = useState<RateSchedule[]>([]);
+  const [storeSettings, setStoreSettings] = useState<StoreSettings | null>(null);
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [lampDevices, setLampDevices] = useState<LampDevice[]>([]);
+  const [lampIssues, setLampIssues] = useState<LampStatusIssue[]>([]);
+  const [maintenanceLogs, setMaintenanceLogs] = useState<MaintenanceLogEntry[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
 
   // Shift State
   const [activeShift, setActiveShift] = useState<Shift | null>(() => {
@@ -280,6 +266,12 @@ const App: React.FC = () => {
   // Cart State
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
+  const [tabTargetId, setTabTargetId] = useState('');
+  const [expiryAlerts, setExpiryAlerts] = useState<ExpiryWarning[]>([]);
+  const [isLampController, setIsLampController] = useState(false);
+  const [showLampSimulator, setShowLampSimulator] = useState(false);
+  const [alertTopupTable, setAlertTopupTable] = useState<Table | null>(null);
+  const firedWarningsRef = useRef<Set<string>>(new Set());
   const [showMobileCart, setShowMobileCart] = useState(false); // Mobile Cart Drawer State
 
   // Login State
@@ -310,32 +302,32 @@ const App: React.FC = () => {
       setIngredients(snap.docs.map(d => ({ id: d.id, ...d.data() } as Ingredient)));
     }, handleSnapshotError);
 
-    let prevTables: Table[] = [];
+    // This device drives the lamps only while it holds the controller lease
+    const lampController = createLampController(storeId, getDeviceId(), navigator.platform || 'Perangkat', setIsLampController);
+
     const unsubTables = onSnapshot(query(collection(db, `stores/${storeId}/tables`), orderBy('name')), (snap) => {
       const latest = snap.docs.map(d => ({ id: d.id, ...d.data() } as Table));
+      lampController.syncTables(latest);
+      setTables(latest);
+    }, handleSnapshotError);
 
-      // Compare previous table statuses and control lamps on changes
-      for (let i = 0; i < latest.length; i++) {
-        const t = latest[i];
-        const p = prevTables.find(x => x.id === t.id);
-        const num = deriveTableNumber(t.name, i);
-        if (!p) {
-          if (t.status === 'occupied') {
-            const dur = t.endTime ? Math.max(0, Math.ceil((t.endTime - Date.now()) / 1000)) : undefined;
-            controlLamp(num, 'on', dur).catch(e => console.warn('controlLamp error', e));
-          }
-        } else if (p.status !== t.status) {
-          if (p.status !== 'occupied' && t.status === 'occupied') {
-            const dur = t.endTime ? Math.max(0, Math.ceil((t.endTime - Date.now()) / 1000)) : undefined;
-            controlLamp(num, 'on', dur).catch(e => console.warn('controlLamp error', e));
-          } else if (p.status === 'occupied' && t.status !== 'occupied') {
-            controlLamp(num, 'off').catch(e => console.warn('controlLamp error', e));
-          }
-        }
-      }
+    const unsubLampDevices = onSnapshot(lampDeviceCollection(storeId), (snap) => {
+      const latest = snap.docs.map(d => ({ id: d.id, ...d.data() } as LampDevice));
+      lampController.syncDevices(latest);
+      setLampDevices(latest);
+    }, handleSnapshotError);
 
-      prevTables = latest;
-      setTables(latest);
+    // Lamps that failed to switch or do not match their table (written by the lamp controller)
+    const unsubLampStatus = onSnapshot(lampStatusCollection(storeId), (snap) => {
+      setLampIssues(snap.docs.map(d => ({ id: d.id, ...d.data() } as LampStatusIssue)));
+    }, handleSnapshotError);
+
+    const unsubMaintenance = onSnapshot(query(maintenanceLogCollection(storeId), orderBy('date', 'desc')), (snap) => {
+      setMaintenanceLogs(snap.docs.map(d => ({ id: d.id, ...d.data() } as MaintenanceLogEntry)));
+    }, handleSnapshotError);
+
+    const unsubPromotions = onSnapshot(promotionCollection(storeId), (snap) => {
+      setPromotions(snap.docs.map(d => ({ id: d.id, ...d.data() } as Promotion)));
     }, handleSnapshotError);
 
     const unsubUsers = onSnapshot(collection(db, `stores/${storeId}/users`), (snap) => {
@@ -346,6 +338,34 @@ const App: React.FC = () => {
        setOperators(snap.docs.map(d => ({ id: d.id, ...d.data() } as Operator)));
     }, handleSnapshotError);
 
+    const unsubStore = onSnapshot(doc(db, 'stores', storeId), (snap) => {
+       if (snap.exists()) setStoreSettings({ storeId, ...snap.data() } as StoreSettings);
+    }, handleSnapshotError);
+
+    const unsubRates = onSnapshot(collection(db, `stores/${storeId}/rate_schedules`), (snap) => {
+       setRateSchedules(snap.docs.map(d => ({ id: d.id, ...d.data() } as RateSchedule)));
+    }, handleSnapshotError);
+
+    // Reservations from yesterday onwards (older ones only matter as history)
+    const qReservations = query(
+      collection(db, `stores/${storeId}/reservations`),
+      where('startTime', '>', Date.now() - (24 * 60 * 60 * 1000)),
+      orderBy('startTime')
+    );
+    const unsubReservations = onSnapshot(qReservations, (snap) => {
+      setReservations(snap.docs.map(d => ({ id: d.id, ...d.data() } as Reservation)));
+    }, handleSnapshotError);
+
+    // Today's waitlist (includes seated / no-show entries for the counters)
+    const qWaitlist = query(
+      collection(db, `stores/${storeId}/waitlist`),
+      where('createdAt', '>', Date.now() - (24 * 60 * 60 * 1000)),
+      orderBy('createdAt')
+    );
+    const unsubWaitlist = onSnapshot(qWaitlist, (snap) => {
+      setWaitlist(snap.docs.map(d => ({ id: d.id, ...d.data() } as WaitlistEntry)));
+    }, handleSnapshotError);
+
     // Fetch transactions
     const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
     const qTrans = query(
@@ -364,6 +384,15 @@ const App: React.FC = () => {
       unsubUsers();
       unsubTrans();
       unsubOperators();
+      unsubRates();
+      unsubStore();
+      unsubReservations();
+      unsubWaitlist();
+      unsubLampDevices();
+      unsubLampStatus();
+      unsubMaintenance();
+      unsubPromotions();
+      lampController.stop();
     };
   }, [storeId]);
 
@@ -375,15 +404,23 @@ const App: React.FC = () => {
       const now = Date.now();
       tables.forEach(async (t) => {
         try {
-          if (t.status === 'occupied' && t.endTime && now >= t.endTime) {
-            // Mark table as available and clear timing fields
-            await updateDoc(doc(db, `stores/${storeId}/tables`, t.id), {
-              status: 'available',
-              startTime: deleteField(),
-              endTime: deleteField(),
-              duration: 0,
-              currentCustomer: deleteField()
+          // Paused tables keep their status; the timer resumes later with a shifted endTime.
+          // Tables with an open tab stay occupied until the tab is settled.
+          if (t.status === 'occupied' && !t.pausedAt && !t.tab?.length && t.endTime && now >= t.endTime) {
+            // Every open device runs this check, so re-read inside a transaction:
+            // only the device that actually frees the table records the expiry.
+            const tableRef = doc(db, `stores/${storeId}/tables`, t.id);
+            const expired = await runTransaction(db, async (trx) => {
+              const snap = await trx.get(tableRef);
+              const latest = snap.data() as Table | undefined;
+              if (!latest || latest.status !== 'occupied' || latest.pausedAt || latest.tab?.length || !latest.endTime || Date.now() < latest.endTime) return null;
+              // Mark table as available and clear timing fields; played time counts towards service reminders
+              trx.update(tableRef, { ...AVAILABLE_TABLE_FIELDS, playedMs: increment(getPlayedMs(latest, latest.endTime)) });
+              return latest;
             });
+            if (expired?.sessionId) {
+              await closeSession(storeId, expired.sessionId, sessionEvent('expire', 'Sistem', t.id, { minutes: expired.duration }));
+            }
           }
         } catch (e) {
           console.warn('Auto-stop table failed', e);
@@ -393,6 +430,43 @@ const App: React.FC = () => {
     return () => clearInterval(iv);
   }, [tables, storeId]);
 
+  const billingRules: BillingRules = { ...DEFAULT_BILLING_RULES, ...storeSettings?.billing };
+  const expiryWarnings: ExpiryWarningSettings = { ...DEFAULT_EXPIRY_WARNINGS, ...storeSettings?.expiryWarnings };
+  const maintenanceIntervals = { ...DEFAULT_MAINTENANCE_INTERVALS, ...storeSettings?.maintenanceIntervals };
+  const taxSettings: TaxSettings = { ...DEFAULT_TAX_SETTINGS, ...storeSettings?.tax };
+
+  // Pre-expiry warnings: banner + chime on this device, one blink command for the lamp controller
+  useEffect(() => {
+    if (!storeId || expiryWarnings.minutesBefore.length === 0) return;
+    const check = () => {
+      const due = collectDueWarnings(tables, expiryWarnings.minutesBefore, firedWarningsRef.current);
+      if (due.length === 0) return;
+      setExpiryAlerts(prev => [...prev.filter(a => !due.some(d => d.tableId === a.tableId)), ...due]);
+      if (expiryWarnings.sound) playChime();
+      // Every actuator with a warning action; the table lamp only when blinking is enabled
+      due.forEach(w => {
+        const table = tables.find(t => t.id === w.tableId);
+        const actuatorIds = table
+          ? getTableActuators(table).filter(a => a.triggers.warning && (a.id !== PRIMARY_LAMP_ID || expiryWarnings.blink)).map(a => a.id)
+          : [];
+        if (actuatorIds.length === 0) return;
+        enqueueLampCommand(storeId, `blink-${w.key}`, { tableId: w.tableId, action: 'blink', trigger: 'warning', actuatorIds, createdBy: 'Sistem' })
+          .catch(e => console.warn('Lamp blink failed', w.tableName, e));
+      });
+    };
+    check();
+    const iv = setInterval(check, 5 * 1000);
+    return () => clearInterval(iv);
+  }, [tables, storeId, expiryWarnings.minutesBefore.join(','), expiryWarnings.sound, expiryWarnings.blink]);
+
+  // Drop banners of tables that were topped up, stopped or have expired
+  useEffect(() => {
+    setExpiryAlerts(prev => prev.filter(a => {
+      const t = tables.find(x => x.id === a.tableId);
+      return t && t.status === 'occupied' && t.endTime === a.endTime && a.endTime > Date.now();
+    }));
+  }, [tables]);
+
   // --- Handlers ---
 
   const addToCartProduct = (product: Product, price: number, variantType?: string) => {
@@ -424,33 +498,136 @@ const App: React.FC = () => {
     });
   };
 
-  const addToCartTable = (table: Table, duration: number) => {
+  const addToCartTable = (table: Table, duration: number, openPlay?: boolean, party?: WaitlistEntry) => {
+    if (table.status === 'maintenance') {
+      alert(`${table.name} sedang dalam perawatan dan tidak bisa disewa.`);
+      return;
+    }
+
     // Check if table is already in cart
     const exists = cart.find(item => item.itemType === 'table' && item.tableId === table.id);
     if (exists) {
       alert("Meja ini sudah ada di keranjang. Hapus dulu jika ingin mengubah durasi.");
       return;
     }
+
+    // Seating a waiting party: checkout marks the entry as seated
+    const partyFields = party ? { waitlistEntryId: party.id, partyName: party.partyName } : {};
+
+    // Open play: table starts without endTime, the bill is made when it is closed
+    if (openPlay) {
+      setCart(prev => [...prev, {
+        itemType: 'table',
+        tableId: table.id,
+        name: `Sewa ${table.name} (Main Bebas)`,
+        price: 0,
+        quantity: 1,
+        duration: 0,
+        openPlay: true,
+        ...partyFields
+      }]);
+      return;
+    }
     
     const isTopup = table.status === 'occupied';
-    const price = (duration / 60) * table.costPerHour;
+    // Top-up time is added after the current endTime, so it is priced from there
+    const startAt = isTopup && table.endTime ? table.endTime : Date.now();
+    const schedule = getTableSchedule(table, rateSchedules);
+    const quote = quoteTableCharge(table, schedule, billingRules, startAt, duration, isTopup ? 'topup' : 'start');
+    // Prepaid time is rounded up to whole billing blocks, the player gets what is billed
+    const billedDuration = quote.billedMinutes;
     const itemName = isTopup 
-      ? `Topup ${table.name} (+${duration} Menit)`
-      : `Sewa ${table.name} (${duration} Menit)`;
+      ? `Topup ${table.name} (+${billedDuration} Menit)`
+      : `Sewa ${table.name} (${billedDuration} Menit)`;
 
     setCart(prev => [...prev, {
       itemType: 'table',
       tableId: table.id,
       name: itemName,
-      price: price,
+      price: quote.total,
       quantity: 1,
-      duration: duration
+      duration: billedDuration,
+      ...(quote.detailed ? { priceBreakdown: quote.breakdown } : {}),
+      ...partyFields
     }]);
   };
 
+  // Close a table session through the normal checkout: open play is billed by elapsed
+  // minutes (prepaid time is already paid), plus every item on the table's running tab
+  const addToCartTableSettlement = (table: Table) => {
+    const exists = cart.find(item => item.itemType === 'table' && item.tableId === table.id);
+    if (exists) {
+      alert("Tagihan meja ini sudah ada di keranjang.");
+      return;
+    }
+
+    const minutes = getElapsedMinutes(table);
+    const tabItems: CartItem[] = (table.tab || []).map(i => ({ ...i, tabTableId: table.id }));
+    if (!table.openPlay) {
+      setCart(prev => [...prev, {
+        itemType: 'table',
+        tableId: table.id,
+        name: `Tutup ${table.name} (Prabayar, ${minutes} Menit)`,
+        price: 0,
+        quantity: 1,
+        duration: minutes,
+        settlePlay: true
+      }, ...tabItems]);
+      return;
+    }
+
+    const schedule = getTableSchedule(table, rateSchedules);
+    const quote = quoteTableCharge(table, schedule, billingRules, table.startTime || Date.now(), minutes, 'elapsed');
+    setCart(prev => [...prev, {
+      itemType: 'table',
+      tableId: table.id,
+      name: `Main ${table.name} (${minutes} Menit)`,
+      price: quote.total,
+      quantity: 1,
+      duration: minutes,
+      settlePlay: true,
+      ...(quote.detailed ? { priceBreakdown: quote.breakdown } : {})
+    }, ...tabItems]);
+  };
+
   const removeFromCart = (index: number) => {
-    setCart(prev => prev.filter((_, i) => i !== index));
-    if (cart.length <= 1) setShowMobileCart(false);
+    const removed = cart[index];
+    // Dropping a table's closing bill also drops its tab items (they stay on the table)
+    const dropTab = removed?.itemType === 'table' && removed.settlePlay ? removed.tableId : undefined;
+    const next = cart.filter((item, i) => i !== index && !(dropTab && item.tabTableId === dropTab));
+    setCart(next);
+    if (next.length === 0) setShowMobileCart(false);
+  };
+
+  // Move the cafe items in the cart onto an occupied table's running tab (paid on settlement)
+  const addCartToTab = async (tableId: string) => {
+    const tabItems = cart.filter(i => i.itemType === 'product' && !i.tabTableId);
+    if (!tableId || tabItems.length === 0) return;
+    const tableRef = doc(db, `stores/${storeId}/tables`, tableId);
+    try {
+      await runTransaction(db, async (trx) => {
+        const snap = await trx.get(tableRef);
+        const latest = snap.data() as Table | undefined;
+        if (!latest || latest.status !== 'occupied') throw new Error('Meja tidak sedang dipakai');
+        // Firestore rejects undefined fields
+        const safeItems = tabItems.map(i => ({
+          itemType: 'product',
+          productId: i.productId || '',
+          name: i.name,
+          price: i.price,
+          quantity: i.quantity,
+          variantType: i.variantType || null,
+          isRecipe: i.isRecipe || false
+        }));
+        trx.update(tableRef, { tab: [...(latest.tab || []), ...safeItems] });
+      });
+      setCart(prev => prev.filter(i => !tabItems.includes(i)));
+      setTabTargetId('');
+      setShowMobileCart(false);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Gagal memasukkan ke tab: ${e.message}`);
+    }
   };
 
   const handleStoreConnect = async () => {
@@ -534,8 +711,10 @@ const App: React.FC = () => {
                  <p className="text-sm text-slate-400">
                    {item.quantity} x Rp {item.price.toLocaleString()}
                  </p>
+                 {item.priceBreakdown && <PriceBreakdownLines segments={item.priceBreakdown} />}
                  {item.isRecipe && <span className="text-[10px] text-orange-400 bg-orange-900/20 px-1 rounded">Racikan</span>}
-                 {item.itemType === 'table' && <span className="text-[10px] text-blue-400 bg-blue-900/20 px-1 rounded ml-1">Sewa</span>}
+                 {item.itemType === 'table' && <span className="text-[10px] text-blue-400 bg-blue-900/20 px-1 rounded ml-1">{item.settlePlay ? 'Tagihan' : item.openPlay ? 'Main Bebas' : 'Sewa'}</span>}
+                 {item.tabTableId && <span className="text-[10px] text-yellow-400 bg-yellow-900/20 px-1 rounded ml-1">Tab {tables.find(t => t.id === item.tabTableId)?.name}</span>}
                </div>
                <button onClick={() => removeFromCart(idx)} className="text-red-400 hover:text-red-300 p-2 hover:bg-red-900/20 rounded">
                  <Trash2 size={18} />
@@ -550,6 +729,30 @@ const App: React.FC = () => {
           <span>Total</span>
           <span>Rp {cart.reduce((acc, i) => acc + (i.price * i.quantity), 0).toLocaleString()}</span>
         </div>
+        {!taxSettings.inclusive && (taxSettings.serviceRate > 0 || taxSettings.taxRate > 0) && (
+          <p className="text-[10px] text-slate-400 text-right -mt-3 mb-3">Belum termasuk service & PPN</p>
+        )}
+        {cart.some(i => i.itemType === 'product' && !i.tabTableId) && tables.some(t => t.status === 'occupied') && (
+          <div className="flex gap-2 mb-3">
+            <select 
+              className="flex-1 bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm"
+              value={tabTargetId}
+              onChange={(e) => setTabTargetId(e.target.value)}
+            >
+              <option value="">Masukkan ke tab meja...</option>
+              {tables.filter(t => t.status === 'occupied').map(t => (
+                <option key={t.id} value={t.id}>{t.name}{t.currentCustomer ? ` - ${t.currentCustomer}` : ''}</option>
+              ))}
+            </select>
+            <button 
+              onClick={() => addCartToTab(tabTargetId)}
+              disabled={!tabTargetId}
+              className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-slate-700 disabled:text-slate-500 text-white px-3 rounded text-sm font-bold"
+            >
+              Tab
+            </button>
+          </div>
+        )}
         <button 
           onClick={() => { setShowMobileCart(false); setIsCheckoutOpen(true); }}
           disabled={cart.length === 0}
@@ -682,12 +885,14 @@ const App: React.FC = () => {
             <SidebarItem icon={<LayoutDashboard size={24} />} label="Dashboard" active={activeTab === 'dashboard'} onClick={() => setActiveTab('dashboard')} />
             <SidebarItem icon={<Target size={24} />} label="Billiard" active={activeTab === 'billiard'} onClick={() => setActiveTab('billiard')} />
             <SidebarItem icon={<Coffee size={24} />} label="Cafe" active={activeTab === 'cafe'} onClick={() => setActiveTab('cafe')} />
+            <SidebarItem icon={<CalendarDays size={24} />} label="Booking" active={activeTab === 'booking'} onClick={() => setActiveTab('booking')} />
              <SidebarItem icon={<Receipt size={24} />} label="Riwayat" active={activeTab === 'history'} onClick={() => setActiveTab('history')} />
             
             {currentUser.role === 'admin' && (
               <>
                 <div className="my-2 border-t border-slate-800 mx-2" />
                 <SidebarItem icon={<Package size={24} />} label="Inventory" active={activeTab === 'inventory'} onClick={() => setActiveTab('inventory')} badge={totalAlerts > 0 ? totalAlerts : undefined} />
+                <SidebarItem icon={<Zap size={24} />} label="Perangkat" active={activeTab === 'devices'} onClick={() => setActiveTab('devices')} />
                 <SidebarItem icon={<Settings size={24} />} label="Setting" active={activeTab === 'settings'} onClick={() => setActiveTab('settings')} />
               </>
             )}
@@ -725,15 +930,30 @@ const App: React.FC = () => {
             <h1 className="text-lg font-bold text-white capitalize flex items-center gap-2">
                {activeTab === 'billiard' ? <Target className="text-accent" size={20} /> : 
                 activeTab === 'cafe' ? <Coffee className="text-orange-400" size={20} /> : 
-                activeTab === 'dashboard' ? <LayoutDashboard className="text-blue-400" size={20} /> : null
+                activeTab === 'dashboard' ? <LayoutDashboard className="text-blue-400" size={20} /> : 
+                activeTab === 'booking' ? <CalendarDays className="text-purple-400" size={20} /> : 
+                activeTab === 'devices' ? <Zap className="text-yellow-400" size={20} /> : null
                }
-               {activeTab.charAt(0).toUpperCase() + activeTab.slice(1)}
+               {activeTab === 'devices' ? 'Perangkat' : activeTab.charAt(0).toUpperCase() + activeTab.slice(1)}
             </h1>
             <p className="text-xs text-slate-400 hidden sm:block">
               {new Date().toLocaleDateString('id-ID', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
             </p>
           </div>
           <div className="flex items-center gap-3">
+             {(LAMP_SIMULATOR_ENABLED || lampDevices.some(d => isSimulatorUrl(d.baseUrl))) && (
+               <button 
+                 onClick={() => setShowLampSimulator(v => !v)}
+                 className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded border ${showLampSimulator ? 'bg-yellow-600 text-white border-yellow-500' : 'text-yellow-300 bg-slate-900 border-slate-600'}`}
+               >
+                 <Lightbulb size={12} /> Simulator
+               </button>
+             )}
+             {isLampController && (
+               <span className="hidden sm:flex items-center gap-1 text-[10px] text-yellow-300 bg-yellow-900/30 border border-yellow-700/50 px-2 py-1 rounded" title="Perangkat ini yang mengirim perintah ke lampu meja">
+                 <Zap size={12} /> Pengendali Lampu
+               </span>
+             )}
              <div className="text-right hidden sm:block">
                 <p className="text-[10px] text-slate-400">Operator</p>
                 <p className="font-bold text-accent text-sm">{activeOperatorName}</p>
@@ -747,6 +967,57 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Pre-expiry warnings */}
+        {expiryAlerts.length > 0 && (
+          <div className="px-4 pt-4 md:px-6 space-y-2">
+            {expiryAlerts.map(a => (
+              <div key={a.key} className="bg-yellow-900/40 border border-yellow-500/60 text-yellow-100 rounded-lg p-3 flex items-center justify-between gap-3">
+                <p className="text-sm flex items-center gap-2">
+                  <BellRing size={18} className="text-yellow-400 shrink-0" />
+                  <span><b>{a.tableName}</b> habis dalam {Math.max(1, Math.ceil((a.endTime - Date.now()) / 60000))} menit ({new Date(a.endTime).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })})</span>
+                </p>
+                <div className="flex gap-2 shrink-0">
+                  <button 
+                    onClick={() => {
+                      const t = tables.find(x => x.id === a.tableId);
+                      if (t) setAlertTopupTable(t);
+                    }}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded text-xs font-bold flex items-center gap-1"
+                  >
+                    <Clock size={14} /> Topup
+                  </button>
+                  <button onClick={() => setExpiryAlerts(prev => prev.filter(x => x.key !== a.key))} className="text-yellow-300 hover:text-white p-1">
+                    <X size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {alertTopupTable && (
+          <TableDurationModal 
+            table={alertTopupTable} 
+            schedule={getTableSchedule(alertTopupTable, rateSchedules)}
+            billingRules={billingRules}
+            reservations={reservations}
+            onClose={() => setAlertTopupTable(null)} 
+            onAddToOrder={(duration, openPlay) => {
+              addToCartTable(alertTopupTable, duration, openPlay);
+              setAlertTopupTable(null);
+            }}
+          />
+        )}
+
+        {showLampSimulator && (
+          <LampSimulatorPanel 
+            tables={tables} 
+            lampDevices={lampDevices} 
+            isLampController={isLampController} 
+            onClose={() => setShowLampSimulator(false)} 
+          />
+        )}
+
         {/* Content Screens */}
         <div className="p-4 pb-24 md:p-6 md:pb-6 flex-1">
           {activeTab === 'dashboard' && <DashboardScreen transactions={transactions} tables={tables} />}
@@ -754,7 +1025,17 @@ const App: React.FC = () => {
             <BilliardScreen 
               storeId={storeId!} 
               tables={tables} 
+              rateSchedules={rateSchedules}
+              billingRules={billingRules}
+              reservations={reservations}
+              waitlist={waitlist}
+              lampDevices={lampDevices}
+              lampIssues={lampIssues}
+              maintenanceLogs={maintenanceLogs}
+              maintenanceIntervals={maintenanceIntervals}
+              operatorName={activeOperatorName}
               onAddToCart={addToCartTable} 
+              onSettle={addToCartTableSettlement}
               isAdmin={currentUser.role === 'admin'}
             />
           )}
@@ -766,12 +1047,25 @@ const App: React.FC = () => {
               onAddToCart={addToCartProduct}
             />
           )}
+          {activeTab === 'booking' && (
+            <ReservationScreen 
+              storeId={storeId!} 
+              tables={tables} 
+              reservations={reservations}
+              operatorName={activeOperatorName}
+            />
+          )}
           {activeTab === 'history' && <TransactionHistoryScreen transactions={transactions} />}
+          {activeTab === 'devices' && currentUser.role === 'admin' && (
+            <ErrorBoundary>
+              <DevicesScreen storeId={storeId!} tables={tables} lampDevices={lampDevices} operatorName={activeOperatorName} />
+            </ErrorBoundary>
+          )}
           {activeTab === 'inventory' && currentUser.role === 'admin' && <InventoryScreen storeId={storeId!} products={products} ingredients={ingredients} />}
-          {activeTab === 'settings' && currentUser.role === 'admin' && <SettingsScreen storeId={storeId!} users={users} operators={operators} />}
+          {activeTab === 'settings' && currentUser.role === 'admin' && <SettingsScreen storeId={storeId!} users={users} operators={operators} promotions={promotions} />}
                 {activeTab === 'settings' && currentUser.role === 'admin' && (
                   <ErrorBoundary>
-                    <SettingsScreen storeId={storeId!} users={users} operators={operators} />
+                    <SettingsScreen storeId={storeId!} users={users} operators={operators} promotions={promotions} />
                   </ErrorBoundary>
                 )}
         </div>
@@ -792,6 +1086,7 @@ const App: React.FC = () => {
         <MobileNavItem icon={<LayoutDashboard size={20} />} label="Dash" active={activeTab === 'dashboard'} onClick={() => setActiveTab('dashboard')} />
         <MobileNavItem icon={<Target size={20} />} label="Billiard" active={activeTab === 'billiard'} onClick={() => setActiveTab('billiard')} />
         <MobileNavItem icon={<Coffee size={20} />} label="Cafe" active={activeTab === 'cafe'} onClick={() => setActiveTab('cafe')} />
+        <MobileNavItem icon={<CalendarDays size={20} />} label="Booking" active={activeTab === 'booking'} onClick={() => setActiveTab('booking')} />
         
         {currentUser.role === 'admin' ? (
            <>
@@ -841,6 +1136,9 @@ const App: React.FC = () => {
            ingredients={ingredients}
            tables={tables}
            activeOperator={activeShift?.operatorName}
+           qrisPayload={storeSettings?.qrisPayload}
+           promotions={promotions}
+           taxSettings={taxSettings}
            onClose={() => setIsCheckoutOpen(false)}
            onSuccess={() => {
              setIsCheckoutOpen(false);
@@ -907,6 +1205,51 @@ const MobileNavItem: React.FC<SidebarItemProps> = ({ icon, label, active, onClic
   </button>
 );
 
+// Per-band price lines for a table item (cart & receipt)
+const PriceBreakdownLines: React.FC<{ segments: PriceSegment[] }> = ({ segments }) => (
+  <div className="mt-1 space-y-0.5">
+    {segments.map((seg, idx) => (
+      <p key={idx} className="text-[10px] text-slate-500 flex justify-between gap-2">
+        <span>{seg.minutes > 0 ? `${seg.label}: ${seg.minutes} mnt x Rp ${seg.costPerHour.toLocaleString()}/jam` : seg.label}</span>
+        <span className="font-mono">{seg.amount.toLocaleString()}</span>
+      </p>
+    ))}
+  </div>
+);
+
+// Service charge / PPN / rounding lines (checkout & receipt)
+const ChargeLines: React.FC<{ serviceCharge?: number, tax?: number, inclusive?: boolean, rounding?: number, serviceRate?: number, taxRate?: number }> = ({ serviceCharge, tax, inclusive, rounding, serviceRate, taxRate }) => (
+  <>
+    {!!serviceCharge && (
+      <div className="flex justify-between text-sm text-slate-400">
+        <span>Service{serviceRate ? ` ${serviceRate}%` : ''}{inclusive ? ' (termasuk)' : ''}</span>
+        <span className="font-mono">{serviceCharge.toLocaleString()}</span>
+      </div>
+    )}
+    {!!tax && (
+      <div className="flex justify-between text-sm text-slate-400">
+        <span>PPN{taxRate ? ` ${taxRate}%` : ''}{inclusive ? ' (termasuk)' : ''}</span>
+        <span className="font-mono">{tax.toLocaleString()}</span>
+      </div>
+    )}
+    {!!rounding && (
+      <div className="flex justify-between text-sm text-slate-400">
+        <span>Pembulatan</span>
+        <span className="font-mono">{rounding.toLocaleString()}</span>
+      </div>
+    )}
+  </>
+);
+
+// Booking / live session conflicts for a table slot
+const ConflictWarning: React.FC<{ conflicts: BookingConflict[] }> = ({ conflicts }) => (
+  <div className="bg-purple-900/20 border border-purple-500/50 p-3 rounded text-sm text-purple-200 space-y-1">
+    {conflicts.map((c, idx) => (
+      <p key={idx} className="flex items-center gap-2"><AlertTriangle size={14}/> Bentrok: {c.message}</p>
+    ))}
+  </div>
+);
+
 // --- SHIFT MANAGEMENT MODAL ---
 interface ShiftManagementModalProps {
   activeShift: Shift | null;
@@ -933,8 +1276,25 @@ const ShiftManagementModal: React.FC<ShiftManagementModalProps> = ({ activeShift
      let cafeItemsSold = 0;
      let billiardRevenue = 0;
      let billiardHours = 0;
+     let refundCash = 0;
+     let refundCredit = 0;
+     let discountTotal = 0;
+     let serviceTotal = 0;
+     let taxTotal = 0;
+     let roundingTotal = 0;
+     let salesTotal = 0;
 
      shiftTrans.forEach(t => {
+       // Refunds are negative transactions, only cash refunds leave the drawer
+       if (t.type === 'refund') {
+         if (t.paymentMethod === 'credit') refundCredit += Math.abs(t.total);
+         else refundCash += Math.abs(t.total);
+         return;
+       }
+       salesTotal += t.total;
+       serviceTotal += t.serviceCharge || 0;
+       taxTotal += t.tax || 0;
+       roundingTotal += t.rounding || 0;
        t.items.forEach(item => {
          const totalItem = item.price * item.quantity;
          if (item.itemType === 'product') {
@@ -943,17 +1303,31 @@ const ShiftManagementModal: React.FC<ShiftManagementModalProps> = ({ activeShift
          } else if (item.itemType === 'table') {
            billiardRevenue += totalItem;
            if (item.duration) billiardHours += (item.duration / 60);
+         } else if (item.itemType === 'discount') {
+           discountTotal -= totalItem;
          }
        });
      });
 
+     // Sales per tender; only cash goes into the drawer (QRIS is paid to the merchant account,
+     // credit was paid earlier)
+     const tenders = sumByTender(shiftTrans.filter(t => t.type !== 'refund'));
+
      return {
        cafeRevenue,
        cafeItemsSold,
        billiardRevenue,
        billiardHours,
-       totalRevenue: cafeRevenue + billiardRevenue,
-       grandTotal: (cafeRevenue + billiardRevenue) + activeShift.startCash
+       refundCash,
+       refundCredit,
+       discountTotal,
+       serviceTotal,
+       taxTotal,
+       roundingTotal,
+       tenders,
+       // Sales totals already include service, PPN and rounding
+       totalRevenue: salesTotal - refundCash - refundCredit,
+       grandTotal: tenders.cash - refundCash + activeShift.startCash
      };
    }, [activeShift, transactions]);
 
@@ -973,9 +1347,21 @@ const ShiftManagementModal: React.FC<ShiftManagementModalProps> = ({ activeShift
 - Terjual: ${report.cafeItemsSold} Item
 - Total: Rp ${report.cafeRevenue.toLocaleString()}
 
+*🏷️ Diskon Promo*: Rp ${report.discountTotal.toLocaleString()}
+*🧾 Service*: Rp ${report.serviceTotal.toLocaleString()}
+*🧾 PPN*: Rp ${report.taxTotal.toLocaleString()}
+*🧾 Pembulatan*: Rp ${report.roundingTotal.toLocaleString()}
+
+*💳 Pembayaran*
+${PAYMENT_METHODS.map(m => `- ${PAYMENT_METHOD_LABEL[m]}: Rp ${report.tenders[m].toLocaleString()}`).join('\n')}
+
+*↩️ Refund*
+- Tunai: Rp ${report.refundCash.toLocaleString()}
+- Saldo Pelanggan: Rp ${report.refundCredit.toLocaleString()}
+
 --------------------------------
 *💵 Total Pendapatan: Rp ${report.totalRevenue.toLocaleString()}*
-*💰 Total Setoran (inc. modal): Rp ${report.grandTotal.toLocaleString()}*
+*💰 Total Setoran Tunai (inc. modal): Rp ${report.grandTotal.toLocaleString()}*
       `;
       const url = `https://wa.me/?text=${encodeURIComponent(text)}`;
       window.open(url, '_blank');
@@ -1077,6 +1463,59 @@ const ShiftManagementModal: React.FC<ShiftManagementModalProps> = ({ activeShift
                  </div>
               </div>
 
+              {/* Discounts */}
+              {report.discountTotal > 0 && (
+                <div className="bg-slate-900 p-3 rounded border border-slate-800 flex justify-between text-sm">
+                   <span className="font-bold text-pink-400 flex items-center gap-2"><Percent size={16}/> Diskon Promo</span>
+                   <span>- Rp {report.discountTotal.toLocaleString()}</span>
+                </div>
+              )}
+
+              {/* Service charge & PPN */}
+              {(report.serviceTotal !== 0 || report.taxTotal !== 0 || report.roundingTotal !== 0) && (
+                <div className="bg-slate-900 p-3 rounded border border-slate-800">
+                   <h4 className="font-bold text-amber-400 flex items-center gap-2 mb-2"><Receipt size={16}/> Service & Pajak</h4>
+                   <div className="flex justify-between text-sm">
+                      <span>Service</span>
+                      <span>Rp {report.serviceTotal.toLocaleString()}</span>
+                   </div>
+                   <div className="flex justify-between text-sm">
+                      <span>PPN</span>
+                      <span>Rp {report.taxTotal.toLocaleString()}</span>
+                   </div>
+                   <div className="flex justify-between text-sm">
+                      <span>Pembulatan</span>
+                      <span>Rp {report.roundingTotal.toLocaleString()}</span>
+                   </div>
+                </div>
+              )}
+
+              {/* Payment Methods */}
+              <div className="bg-slate-900 p-3 rounded border border-slate-800">
+                 <h4 className="font-bold text-sky-400 flex items-center gap-2 mb-2"><Banknote size={16}/> Metode Pembayaran</h4>
+                 {PAYMENT_METHODS.map(m => (
+                    <div key={m} className="flex justify-between text-sm">
+                       <span>{PAYMENT_METHOD_LABEL[m]}{m === 'qris' ? ' (ke rekening)' : ''}</span>
+                       <span>Rp {report.tenders[m].toLocaleString()}</span>
+                    </div>
+                 ))}
+              </div>
+
+              {/* Refunds */}
+              {(report.refundCash > 0 || report.refundCredit > 0) && (
+                <div className="bg-slate-900 p-3 rounded border border-slate-800">
+                   <h4 className="font-bold text-red-400 flex items-center gap-2 mb-2"><ArrowRightLeft size={16}/> Refund</h4>
+                   <div className="flex justify-between text-sm">
+                      <span>Tunai</span>
+                      <span>- Rp {report.refundCash.toLocaleString()}</span>
+                   </div>
+                   <div className="flex justify-between text-sm">
+                      <span>Jadi Saldo Pelanggan</span>
+                      <span>- Rp {report.refundCredit.toLocaleString()}</span>
+                   </div>
+                </div>
+              )}
+
               {/* Grand Total */}
               <div className="bg-slate-800 p-4 rounded border border-slate-600">
                  <div className="flex justify-between text-lg">
@@ -1084,10 +1523,10 @@ const ShiftManagementModal: React.FC<ShiftManagementModalProps> = ({ activeShift
                     <span className="font-bold text-white">Rp {report.totalRevenue.toLocaleString()}</span>
                  </div>
                  <div className="flex justify-between text-xl mt-2 pt-2 border-t border-slate-700">
-                    <span className="text-emerald-400">Total Setoran</span>
+                    <span className="text-emerald-400">Total Setoran Tunai</span>
                     <span className="font-bold text-emerald-400">Rp {report.grandTotal.toLocaleString()}</span>
                  </div>
-                 <p className="text-[10px] text-slate-500 text-right mt-1">*Termasuk modal awal</p>
+                 <p className="text-[10px] text-slate-500 text-right mt-1">*Termasuk modal awal, tanpa QRIS dan saldo</p>
               </div>
 
               {/* Actions */}
@@ -1153,6 +1592,9 @@ const DashboardScreen: React.FC<{ transactions: Transaction[], tables: Table[] }
     const totalToday = todayTrans.reduce((acc, curr) => acc + curr.total, 0);
     const saleCount = todayTrans.filter(t => t.type === 'sale').length;
     const rentalCount = todayTrans.filter(t => t.type === 'rental').length;
+    const tendersToday = sumByTender(todayTrans);
+    const serviceToday = todayTrans.reduce((acc, t) => acc + (t.serviceCharge || 0), 0);
+    const taxToday = todayTrans.reduce((acc, t) => acc + (t.tax || 0), 0);
 
     // Last 7 days chart data
     const chartData = [];
@@ -1174,7 +1616,7 @@ const DashboardScreen: React.FC<{ transactions: Transaction[], tables: Table[] }
       });
     }
 
-    return { totalToday, saleCount, rentalCount, chartData };
+    return { totalToday, saleCount, rentalCount, tendersToday, serviceToday, taxToday, chartData };
   }, [transactions]);
 
   return (
@@ -1184,6 +1626,9 @@ const DashboardScreen: React.FC<{ transactions: Transaction[], tables: Table[] }
         <div className="bg-secondary p-4 md:p-6 rounded-xl border border-slate-700">
           <p className="text-slate-400 text-sm">Pendapatan Hari Ini</p>
           <p className="text-2xl md:text-3xl font-bold text-accent">Rp {stats.totalToday.toLocaleString()}</p>
+          {(stats.serviceToday > 0 || stats.taxToday > 0) && (
+            <p className="text-xs text-slate-500 mt-1">Termasuk service Rp {stats.serviceToday.toLocaleString()} • PPN Rp {stats.taxToday.toLocaleString()}</p>
+          )}
         </div>
         <div className="bg-secondary p-4 md:p-6 rounded-xl border border-slate-700">
           <p className="text-slate-400 text-sm">Transaksi Cafe</p>
@@ -1195,6 +1640,15 @@ const DashboardScreen: React.FC<{ transactions: Transaction[], tables: Table[] }
         </div>
       </div>
 
+      <div className="grid grid-cols-3 gap-4 md:gap-6">
+        {PAYMENT_METHODS.map(m => (
+          <div key={m} className="bg-secondary p-4 rounded-xl border border-slate-700">
+            <p className="text-slate-400 text-xs md:text-sm">{PAYMENT_METHOD_LABEL[m]} Hari Ini</p>
+            <p className="text-lg md:text-xl font-bold text-white">Rp {stats.tendersToday[m].toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
       <div className="bg-secondary p-4 md:p-6 rounded-xl border border-slate-700 h-[300px] md:h-[400px]">
         <h3 className="font-bold mb-4">Grafik Pendapatan (7 Hari)</h3>
         <ResponsiveContainer width="100%" height="100%">
@@ -1214,43 +1668,292 @@ const DashboardScreen: React.FC<{ transactions: Transaction[], tables: Table[] }
   );
 };
 
+// --- WAITLIST PANEL ---
+interface WaitlistPanelProps {
+  storeId: string;
+  tables: Table[];
+  waitlist: WaitlistEntry[];
+  operatorName: string;
+  onSeat: (entry: WaitlistEntry) => void;
+}
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ storeId, tables, waitlist, operatorName, onSeat }) => {
+  const [partyName, setPartyName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [preferredCategory, setPreferredCategory] = useState('');
+
+  const categories = useMemo(() => 
+    Array.from(new Set(tables.map(t => t.category).filter(Boolean))) as string[]
+  , [tables]);
+
+  const waiting = waitlist.filter(e => e.status === 'waiting');
+  const noShowCount = waitlist.filter(e => e.status === 'no_show').length;
+  const waits = useMemo(() => estimateWaits(waitlist, tables), [waitlist, tables]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!partyName.trim()) return;
+    try {
+      await addDoc(collection(db, `stores/${storeId}/waitlist`), {
+        partyName: partyName.trim(),
+        phone,
+        preferredCategory,
+        status: 'waiting',
+        createdAt: Date.now(),
+        createdBy: operatorName
+      });
+      setPartyName('');
+      setPhone('');
+      setPreferredCategory('');
+    } catch (err) {
+      console.error(err);
+      alert("Gagal menambah antrian");
+    }
+  };
+
+  const handleResolve = async (entry: WaitlistEntry, status: 'no_show' | 'cancelled') => {
+    try {
+      await updateDoc(doc(db, `stores/${storeId}/waitlist`, entry.id), { status, resolvedAt: Date.now() });
+    } catch (err) {
+      console.error(err);
+      alert("Gagal memperbarui antrian");
+    }
+  };
+
+  return (
+    <div className="bg-secondary p-4 rounded-xl border border-slate-700 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-bold text-white flex items-center gap-2"><ListOrdered size={18}/> Antrian Walk-in ({waiting.length})</h3>
+        {noShowCount > 0 && <span className="text-xs text-slate-400">Tidak datang hari ini: {noShowCount}</span>}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2 mb-3">
+        <input 
+          type="text" 
+          placeholder="Nama Rombongan" 
+          className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+          value={partyName}
+          onChange={(e) => setPartyName(e.target.value)}
+          required
+        />
+        <input 
+          type="tel" 
+          placeholder="No. HP" 
+          className="md:w-40 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+        />
+        <select 
+          className="md:w-40 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+          value={preferredCategory}
+          onChange={(e) => setPreferredCategory(e.target.value)}
+        >
+          <option value="">Tipe Meja Bebas</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <button type="submit" className="bg-accent hover:bg-emerald-600 text-white px-4 py-2 rounded font-bold text-sm flex items-center justify-center gap-1">
+          <Plus size={16}/> Antri
+        </button>
+      </form>
+
+      {waiting.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">Tidak ada antrian.</p>
+      ) : (
+        <div className="space-y-2">
+          {waiting.map((entry, idx) => {
+            const wait = waits.get(entry.id);
+            return (
+              <div key={entry.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 bg-slate-800 p-3 rounded border border-slate-700">
+                <div>
+                  <p className="text-white font-bold text-sm">{idx + 1}. {entry.partyName}</p>
+                  <p className="text-xs text-slate-400">
+                    {entry.phone || '-'}{entry.preferredCategory ? ` • ${entry.preferredCategory}` : ''} • antri {new Date(entry.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  <p className="text-xs text-yellow-400">
+                    {wait === null || wait === undefined ? 'Estimasi tidak diketahui' : wait === 0 ? 'Meja tersedia sekarang' : `Estimasi ± ${wait} menit`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => onSeat(entry)} className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1.5 rounded text-xs font-bold">Dudukkan</button>
+                  <button onClick={() => handleResolve(entry, 'no_show')} className="bg-slate-700 hover:bg-slate-600 text-slate-200 px-3 py-1.5 rounded text-xs">Tidak Datang</button>
+                  <button onClick={() => handleResolve(entry, 'cancelled')} className="bg-red-900/50 hover:bg-red-900 text-red-200 px-3 py-1.5 rounded text-xs">Batal</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // --- 2. Billiard Screen (Updated) ---
 interface BilliardScreenProps {
   storeId: string;
   tables: Table[];
-  onAddToCart: (table: Table, duration: number) => void;
+  rateSchedules: RateSchedule[];
+  billingRules: BillingRules;
+  reservations: Reservation[];
+  waitlist: WaitlistEntry[];
+  lampDevices: LampDevice[];
+  lampIssues: LampStatusIssue[];
+  maintenanceLogs: MaintenanceLogEntry[];
+  maintenanceIntervals: Partial<Record<MaintenanceType, number>>;
+  operatorName: string;
+  onAddToCart: (table: Table, duration: number, openPlay?: boolean, party?: WaitlistEntry) => void;
+  onSettle: (table: Table) => void;
   isAdmin: boolean;
 }
 
-const BilliardScreen: React.FC<BilliardScreenProps> = ({ storeId, tables, onAddToCart, isAdmin }) => {
+const BilliardScreen: React.FC<BilliardScreenProps> = ({ storeId, tables, rateSchedules, billingRules, reservations, waitlist, lampDevices, lampIssues, maintenanceLogs, maintenanceIntervals, operatorName, onAddToCart, onSettle, isAdmin }) => {
   const [selectedTable, setSelectedTable] = useState<Table | null>(null);
+  const [seatingParty, setSeatingParty] = useState<WaitlistEntry | null>(null);
+  const [seatingTable, setSeatingTable] = useState<Table | null>(null);
   const [manageTableMode, setManageTableMode] = useState(false);
+  const [manageRatesMode, setManageRatesMode] = useState(false);
+  const [manageLampsMode, setManageLampsMode] = useState(false);
   const [isMovingTable, setIsMovingTable] = useState<Table | null>(null);
   const [stopTableTarget, setStopTableTarget] = useState<Table | null>(null);
+  const [maintenanceTarget, setMaintenanceTarget] = useState<Table | null>(null);
+
+  const maintenanceDue = useMemo(() => getMaintenanceDue(tables, maintenanceLogs, maintenanceIntervals), [tables, maintenanceLogs, maintenanceIntervals]);
+
+  // Pause freezes the timer (the lamp controller turns the lamp off); resume shifts endTime by the paused interval
+  const handleTogglePause = async (table: Table) => {
+    const tableRef = doc(db, `stores/${storeId}/tables`, table.id);
+    try {
+      const result = await runTransaction(db, async (trx) => {
+        const snap = await trx.get(tableRef);
+        const latest = snap.data() as Table | undefined;
+        if (!latest || latest.status !== 'occupied') return null;
+        const now = Date.now();
+        if (latest.pausedAt) {
+          const pausedMs = now - latest.pausedAt;
+          trx.update(tableRef, {
+            pausedAt: 0,
+            pausedTotalMs: (latest.pausedTotalMs || 0) + pausedMs,
+            ...(latest.endTime ? { endTime: latest.endTime + pausedMs } : {})
+          });
+          return { resumed: true, pausedMs, endTime: latest.endTime ? latest.endTime + pausedMs : 0, sessionId: latest.sessionId };
+        }
+        trx.update(tableRef, { pausedAt: now });
+        return { resumed: false, pausedMs: 0, endTime: latest.endTime || 0, sessionId: latest.sessionId };
+      });
+      if (!result) return;
+
+      if (result.sessionId) {
+        await recordSessionEvent(storeId, result.sessionId, sessionEvent(result.resumed ? 'resume' : 'pause', operatorName, table.id, {
+          minutes: result.resumed ? Math.round(result.pausedMs / 60000) : undefined
+        })).catch(e => console.warn('Session pause log failed', e));
+      }
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menjeda / melanjutkan meja");
+    }
+  };
 
   return (
     <div>
-      <div className="flex justify-end mb-4">
+      <div className="flex justify-end gap-2 mb-4">
         {isAdmin && (
-           <button 
-             onClick={() => setManageTableMode(true)}
-             className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded flex items-center gap-2 text-sm"
-           >
-             <Wrench size={16} /> Atur Meja
-           </button>
+           <>
+             <button 
+               onClick={() => setManageRatesMode(true)}
+               className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded flex items-center gap-2 text-sm"
+             >
+               <Clock size={16} /> Atur Tarif
+             </button>
+             <button 
+               onClick={() => setManageLampsMode(true)}
+               className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded flex items-center gap-2 text-sm"
+             >
+               <Zap size={16} /> Atur Lampu
+             </button>
+             <button 
+               onClick={() => setManageTableMode(true)}
+               className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-2 rounded flex items-center gap-2 text-sm"
+             >
+               <Wrench size={16} /> Atur Meja
+             </button>
+           </>
         )}
       </div>
       
+      {lampIssues.length > 0 && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-xl p-4 mb-6">
+          <h3 className="font-bold text-red-300 flex items-center gap-2 mb-2"><AlertTriangle size={18}/> Lampu Tidak Sesuai ({lampIssues.length})</h3>
+          <div className="space-y-2">
+            {lampIssues.map(issue => {
+              const table = tables.find(t => t.id === issue.tableId);
+              return (
+                <div key={issue.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p className="text-white font-bold">{issue.tableName}</p>
+                    <p className="text-xs text-red-200">
+                      Seharusnya {issue.desired.toUpperCase()}, {issue.reported ? `perangkat melaporkan ${issue.reported.toUpperCase()}` : 'perintah gagal terkirim'}
+                      {issue.error ? ` - ${issue.error}` : ''} (sejak {new Date(issue.since).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })})
+                    </p>
+                  </div>
+                  {table && (
+                    <button 
+                      onClick={() => {
+                        const action = getDesiredLampState(table);
+                        const durationSec = action === 'on' && table.endTime ? Math.max(0, Math.ceil((table.endTime - Date.now()) / 1000)) : undefined;
+                        enqueueLampCommand(storeId, `resend-${table.id}-${Date.now()}`, { tableId: table.id, action, durationSec, createdBy: operatorName })
+                          .catch(e => { console.error(e); alert("Gagal mengirim ulang perintah lampu"); });
+                      }}
+                      className="bg-red-700 hover:bg-red-600 text-white px-3 py-1.5 rounded text-xs font-bold self-start md:self-auto"
+                    >
+                      Kirim Ulang
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {maintenanceDue.length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-600/50 rounded-xl p-4 mb-6">
+          <h3 className="font-bold text-amber-300 flex items-center gap-2 mb-2"><Wrench size={18}/> Jadwal Perawatan ({maintenanceDue.length})</h3>
+          <div className="flex flex-wrap gap-2">
+            {maintenanceDue.map(d => (
+              <button 
+                key={`${d.tableId}-${d.type}`}
+                onClick={() => setMaintenanceTarget(tables.find(t => t.id === d.tableId) || null)}
+                className="bg-slate-900 hover:bg-slate-800 border border-amber-700/50 text-xs text-amber-100 px-3 py-1.5 rounded text-left"
+              >
+                <b>{d.tableName}</b> - {MAINTENANCE_TYPE_LABEL[d.type]}: {Math.floor(d.hoursSince)} / {d.intervalHours} jam main
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <WaitlistPanel 
+        storeId={storeId}
+        tables={tables}
+        waitlist={waitlist}
+        operatorName={operatorName}
+        onSeat={setSeatingParty}
+      />
+
       {/* Responsive Grid: 1 col mobile, 2 col tablet, 3 col desktop */}
       <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 md:gap-6">
         {tables.map(table => (
           <TableCard 
             key={table.id} 
             table={table} 
+            schedule={getTableSchedule(table, rateSchedules)}
+            nextReservation={getNextReservation(table.id, reservations)}
             onStart={() => setSelectedTable(table)} 
             onStop={() => setStopTableTarget(table)}
             onTopup={() => setSelectedTable(table)}
             onMove={() => setIsMovingTable(table)}
+            onSettle={() => onSettle(table)}
+            onTogglePause={() => handleTogglePause(table)}
+            onMaintenance={() => setMaintenanceTarget(table)}
           />
         ))}
       </div>
@@ -1258,29 +1961,98 @@ const BilliardScreen: React.FC<BilliardScreenProps> = ({ storeId, tables, onAddT
       {selectedTable && (
         <TableDurationModal 
           table={selectedTable} 
+          schedule={getTableSchedule(selectedTable, rateSchedules)}
+          billingRules={billingRules}
+          reservations={reservations}
           onClose={() => setSelectedTable(null)} 
-          onAddToOrder={(duration) => {
-            onAddToCart(selectedTable, duration);
+          onAddToOrder={(duration, openPlay) => {
+            onAddToCart(selectedTable, duration, openPlay);
             setSelectedTable(null);
           }}
         />
       )}
 
+      {/* Seating a waiting party: pick a table, then the normal duration -> cart flow */}
+      {seatingParty && !seatingTable && (
+        <Modal title={`Dudukkan ${seatingParty.partyName}`} onClose={() => setSeatingParty(null)}>
+          <div className="space-y-3">
+            <p className="text-sm text-slate-400">
+              Pilih meja kosong{seatingParty.preferredCategory ? ` (prioritas ${seatingParty.preferredCategory})` : ''}:
+            </p>
+            {getSeatingOptions(seatingParty, tables).length === 0 ? (
+              <p className="text-red-400 bg-red-900/20 p-3 rounded">Tidak ada meja kosong tersedia.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {getSeatingOptions(seatingParty, tables).map(t => (
+                  <button 
+                    key={t.id}
+                    onClick={() => setSeatingTable(t)}
+                    className="bg-slate-800 hover:bg-slate-700 border border-slate-600 p-4 rounded text-white active:scale-95 transition flex flex-col items-center"
+                  >
+                    <span className="font-bold">{t.name}</span>
+                    {t.category && <span className="text-[10px] text-slate-400">{t.category}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </Modal>
+      )}
+
+      {seatingParty && seatingTable && (
+        <TableDurationModal 
+          table={seatingTable} 
+          schedule={getTableSchedule(seatingTable, rateSchedules)}
+          billingRules={billingRules}
+          reservations={reservations}
+          onClose={() => { setSeatingTable(null); setSeatingParty(null); }} 
+          onAddToOrder={(duration, openPlay) => {
+            onAddToCart(seatingTable, duration, openPlay, seatingParty);
+            setSeatingTable(null);
+            setSeatingParty(null);
+          }}
+        />
+      )}
+
       {manageTableMode && (
         <ErrorBoundary>
           <TableManagementModal 
             storeId={storeId} 
             tables={tables} 
+            rateSchedules={rateSchedules}
             onClose={() => setManageTableMode(false)} 
           />
         </ErrorBoundary>
       )}
 
-      {isMovingTable && (
-         <MoveTableModal
-            storeId={storeId}
+      {manageRatesMode && (
+        <ErrorBoundary>
+          <RateScheduleModal 
+            storeId={storeId} 
+            rateSchedules={rateSchedules}
+            onClose={() => setManageRatesMode(false)} 
+          />
+        </ErrorBoundary>
+      )}
+
+      {manageLampsMode && (
+        <ErrorBoundary>
+          <LampDeviceModal 
+            storeId={storeId} 
+            tables={tables}
+            lampDevices={lampDevices}
+            operatorName={operatorName}
+            onClose={() => setManageLampsMode(false)} 
+          />
+        </ErrorBoundary>
+      )}
+
+      {isMovingTable && (
+         <MoveTableModal
+            storeId={storeId}
             fromTable={isMovingTable}
             tables={tables}
+            operatorName={operatorName}
             onClose={() => setIsMovingTable(null)}
          />
       )}
@@ -1289,79 +2061,168 @@ const BilliardScreen: React.FC<BilliardScreenProps> = ({ storeId, tables, onAddT
         <StopTableModal 
           storeId={storeId}
           table={stopTableTarget}
+          tables={tables}
+          operatorName={operatorName}
           onClose={() => setStopTableTarget(null)}
         />
       )}
+
+      {maintenanceTarget && (
+        <ErrorBoundary>
+          <MaintenanceModal 
+            storeId={storeId}
+            table={tables.find(t => t.id === maintenanceTarget.id) || maintenanceTarget}
+            logs={maintenanceLogs.filter(l => l.tableId === maintenanceTarget.id)}
+            intervals={maintenanceIntervals}
+            operatorName={operatorName}
+            isAdmin={isAdmin}
+            onClose={() => setMaintenanceTarget(null)}
+          />
+        </ErrorBoundary>
+      )}
     </div>
   );
 };
 
 interface TableCardProps {
   table: Table;
+  schedule?: RateSchedule;
+  nextReservation?: Reservation;
   onStart: () => void;
   onStop: () => void;
   onTopup: () => void;
   onMove: () => void;
+  onSettle: () => void;
+  onTogglePause: () => void;
+  onMaintenance: () => void;
 }
 
-const TableCard: React.FC<TableCardProps> = ({ table, onStart, onStop, onTopup, onMove }) => {
+const TableCard: React.FC<TableCardProps> = ({ table, schedule, nextReservation, onStart, onStop, onTopup, onMove, onSettle, onTogglePause, onMaintenance }) => {
   const [timeLeft, setTimeLeft] = useState<string>('--:--');
   
   useEffect(() => {
-    if (table.status === 'available' || !table.endTime) {
+    const isOpenPlay = table.status === 'occupied' && table.openPlay && !!table.startTime;
+    if (table.status !== 'occupied' || (!table.endTime && !isOpenPlay)) {
       setTimeLeft('--:--');
       return;
     }
 
-    const interval = setInterval(() => {
-      const now = Date.now();
-      const diff = table.endTime! - now;
+    const render = () => {
+      // While paused the clock is frozen at pausedAt
+      const now = table.pausedAt || Date.now();
+      // Open play counts up (excluding pauses), prepaid counts down to endTime
+      const diff = isOpenPlay ? getPlayedMs(table, now) : table.endTime! - now;
       
       if (diff <= 0) {
         setTimeLeft('00:00');
       } else {
         const minutes = Math.floor((diff / 1000 / 60) % 60);
-        const hours = Math.floor((diff / (1000 * 60 * 60)) % 24);
+        const hours = Math.floor(diff / (1000 * 60 * 60));
         const seconds = Math.floor((diff / 1000) % 60);
         setTimeLeft(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
       }
-    }, 1000);
+    };
+
+    render();
+    if (table.pausedAt) return;
+    const interval = setInterval(render, 1000);
 
     return () => clearInterval(interval);
   }, [table]);
 
   const isOccupied = table.status === 'occupied';
+  const isMaintenance = table.status === 'maintenance';
+  const isOpenPlay = isOccupied && !!table.openPlay;
+  const isPaused = isOccupied && !!table.pausedAt;
+  const tabCount = isOccupied ? (table.tab || []).reduce((acc, i) => acc + i.quantity, 0) : 0;
+  // With an open tab the session ends through a bill, not a plain stop
+  const closesWithBill = isOpenPlay || tabCount > 0;
+  const currentRate = findRate(table, schedule, Date.now());
 
   return (
-    <div className={`rounded-xl p-4 md:p-6 border-2 relative overflow-hidden transition-all ${isOccupied ? 'bg-slate-900 border-red-500 shadow-red-900/20' : 'bg-secondary border-slate-700 hover:border-accent'}`}>
+    <div className={`rounded-xl p-4 md:p-6 border-2 relative overflow-hidden transition-all ${isOccupied ? 'bg-slate-900 border-red-500 shadow-red-900/20' : isMaintenance ? 'bg-slate-900 border-amber-500 border-dashed' : 'bg-secondary border-slate-700 hover:border-accent'}`}>
       <div className="flex justify-between items-start mb-4">
         <div>
           <h3 className="text-xl font-bold text-white">{table.name}</h3>
-          <p className="text-xs text-slate-400">Rp {table.costPerHour.toLocaleString()}/jam</p>
+          <p className="text-xs text-slate-400">
+            Rp {currentRate.costPerHour.toLocaleString()}/jam
+            {schedule && <span className="ml-1 text-slate-500">({currentRate.label})</span>}
+          </p>
         </div>
-        <span className={`px-2 py-1 text-xs font-bold rounded uppercase ${isOccupied ? 'bg-red-500 text-white' : 'bg-accent text-primary'}`}>
-          {table.status}
+        <span className={`px-2 py-1 text-xs font-bold rounded uppercase ${isOccupied ? 'bg-red-500 text-white' : isMaintenance ? 'bg-amber-500 text-primary' : 'bg-accent text-primary'}`}>
+          {isMaintenance ? 'Perawatan' : table.status}
         </span>
       </div>
 
       <div className="text-center py-2 md:py-4">
-        <p className={`text-4xl md:text-5xl font-mono font-bold ${isOccupied ? 'text-red-400' : 'text-slate-200'}`}>{timeLeft}</p>
-        <p className="text-xs text-slate-500 mt-1 truncate px-2">{isOccupied ? (table.currentCustomer || 'Sedang Main') : 'Tersedia'}</p>
+        <p className={`text-4xl md:text-5xl font-mono font-bold ${isPaused ? 'text-yellow-400' : isOccupied ? 'text-red-400' : 'text-slate-200'}`}>{timeLeft}</p>
+        <p className="text-xs text-slate-500 mt-1 truncate px-2">{isOccupied ? (table.currentCustomer || 'Sedang Main') : isMaintenance ? (table.maintenanceNote || 'Sedang Perawatan') : 'Tersedia'}</p>
+        {isMaintenance && table.maintenanceSince ? (
+          <p className="text-[10px] text-amber-400 mt-1 uppercase font-bold">
+            Perawatan sejak {new Date(table.maintenanceSince).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+          </p>
+        ) : null}
+        {isOpenPlay && (
+          <p className="text-[10px] text-blue-400 mt-1 uppercase font-bold">Main Bebas</p>
+        )}
+        {tabCount > 0 && (
+          <p className="text-[10px] text-yellow-300 mt-1 flex items-center justify-center gap-1">
+            <Receipt size={12} /> Tab: {tabCount} item - Rp {getTabTotal(table).toLocaleString()}
+          </p>
+        )}
+        {isPaused && (
+          <p className="text-[10px] text-yellow-400 mt-1 uppercase font-bold">
+            Dijeda sejak {new Date(table.pausedAt!).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+          </p>
+        )}
+        {nextReservation && (
+          <p className="text-[10px] text-purple-300 mt-1 flex items-center justify-center gap-1">
+            <CalendarDays size={12} /> Booking {new Date(nextReservation.startTime).toLocaleString('id-ID', { weekday: 'short', hour: '2-digit', minute: '2-digit' })} - {nextReservation.customerName}
+          </p>
+        )}
       </div>
 
       <div className="mt-4">
-        {isOccupied ? (
+        {isPaused ? (
+          <div className="grid grid-cols-2 gap-2">
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onTogglePause(); }} className="bg-yellow-600 hover:bg-yellow-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                <PlayCircle size={16} /> Lanjutkan
+             </button>
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); closesWithBill ? onSettle() : onStop(); }} className="bg-red-600 hover:bg-red-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                {closesWithBill ? <><Receipt size={16} /> Tutup & Tagih</> : <><Power size={16} /> Stop</>}
+             </button>
+          </div>
+        ) : isOpenPlay ? (
           <div className="grid grid-cols-3 gap-2">
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onTogglePause(); }} className="bg-yellow-600 hover:bg-yellow-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                <Pause size={16} /> Jeda
+             </button>
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onMove(); }} className="bg-orange-600 hover:bg-orange-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                <ArrowRightLeft size={16} /> Pindah
+             </button>
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onSettle(); }} className="bg-red-600 hover:bg-red-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                <Receipt size={16} /> Tutup & Tagih
+             </button>
+          </div>
+        ) : isOccupied ? (
+          <div className="grid grid-cols-4 gap-2">
              <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onTopup(); }} className="bg-blue-600 hover:bg-blue-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
                 <Clock size={16} /> Topup
              </button>
              <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onMove(); }} className="bg-orange-600 hover:bg-orange-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
                 <ArrowRightLeft size={16} /> Pindah
              </button>
-             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onStop(); }} className="bg-red-600 hover:bg-red-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
-                <Power size={16} /> Stop
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onTogglePause(); }} className="bg-yellow-600 hover:bg-yellow-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                <Pause size={16} /> Jeda
+             </button>
+             <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); closesWithBill ? onSettle() : onStop(); }} className="bg-red-600 hover:bg-red-700 text-white py-3 md:py-2 rounded flex flex-col items-center justify-center text-[10px] gap-1 active:scale-95 transition">
+                {closesWithBill ? <><Receipt size={16} /> Tagih</> : <><Power size={16} /> Stop</>}
              </button>
           </div>
+        ) : isMaintenance ? (
+          <button onClick={onMaintenance} className="w-full bg-amber-600 hover:bg-amber-700 text-white font-bold py-3 md:py-4 rounded flex items-center justify-center gap-2 text-lg active:scale-95 transition">
+            <Wrench size={20} /> Perawatan
+          </button>
         ) : (
           <button onClick={onStart} className="w-full bg-accent hover:bg-emerald-600 text-primary font-bold py-3 md:py-4 rounded flex items-center justify-center gap-2 text-lg active:scale-95 transition">
             <PlayCircle size={20} /> Mulai Sewa
@@ -1370,6 +2231,11 @@ const TableCard: React.FC<TableCardProps> = ({ table, onStart, onStop, onTopup,
       </div>
       
       <div className="absolute top-2 right-12 flex gap-2">
+        {!isMaintenance && (
+          <button onClick={(e) => { e.preventDefault(); e.stopPropagation(); onMaintenance(); }} className="text-slate-600 hover:text-amber-400" title="Perawatan & riwayat servis">
+            <Wrench size={14} />
+          </button>
+        )}
         {table.remoteOn && (
           <a href={table.remoteOn} target="_blank" rel="noreferrer" className="text-emerald-400 hover:text-white" title="Lampu ON">
             <Power size={14} />
@@ -1391,29 +2257,99 @@ const TableCard: React.FC<TableCardProps> = ({ table, onStart, onStop, onTopup,
 };
 
 // --- New: Stop Table Modal ---
-const StopTableModal: React.FC<{ storeId: string, table: Table, onClose: () => void }> = ({ storeId, table, onClose }) => {
+interface StopTableModalProps {
+  storeId: string;
+  table: Table;
+  tables: Table[];
+  operatorName: string;
+  onClose: () => void;
+}
+
+const StopTableModal: React.FC<StopTableModalProps> = ({ storeId, table, tables, operatorName, onClose }) => {
   const [loading, setLoading] = useState(false);
+  const [refundMode, setRefundMode] = useState<'forfeit' | 'refund' | 'credit'>('forfeit');
+  const [reason, setReason] = useState('');
+  // Credit needs a real name, the balance is looked up by it at checkout
+  const [creditName, setCreditName] = useState(table.currentCustomer || '');
+
+  const unused = useMemo(() => getUnusedTimeRefund(table), [table]);
+  const canRefund = unused.amount > 0;
+  const needsReason = refundMode !== 'forfeit';
 
   const handleConfirmStop = async () => {
+    if (needsReason && !reason.trim()) return alert('Alasan refund wajib diisi');
+    if (canRefund && refundMode === 'credit' && !creditName.trim()) return alert('Nama pelanggan wajib diisi untuk saldo');
+    if (table.tab?.length) return alert('Meja masih punya tab yang belum dibayar. Gunakan Tutup & Tagih.');
     setLoading(true);
     try {
       const tableRef = doc(db, `stores/${storeId}/tables`, table.id);
-      
-      // Use setDoc with merge: true to reset values safely
-      await setDoc(tableRef, {
-        status: 'available',
-        startTime: 0,
-        endTime: 0,
-        currentCustomer: '', 
-        duration: 0
-      }, { merge: true });
-      // Toggle lamp off for this table (best-effort)
-      try {
-        const idx = tables.findIndex(t => t.id === table.id);
-        const num = deriveTableNumber(table.name, idx >= 0 ? idx : 0);
-        await controlLamp(num, 'off');
-      } catch (e) {
-        console.warn('Failed to control lamp on stop', e);
+      const refundRef = doc(collection(db, `stores/${storeId}/transactions`));
+      const customerName = refundMode === 'credit' ? creditName.trim() : table.currentCustomer || 'Pelanggan';
+
+      // One transaction: the refund is computed from the table as stored, so a top-up or
+      // stop on another device cannot be refunded twice or lost
+      const refund = await runTransaction(db, async (trx) => {
+        const snap = await trx.get(tableRef);
+        const latest = snap.exists() ? ({ id: table.id, ...snap.data() } as Table) : null;
+        if (!latest || latest.status !== 'occupied' || latest.sessionId !== table.sessionId) {
+          throw new Error('Sesi meja sudah berubah di perangkat lain. Tutup dan ulangi.');
+        }
+        if (latest.tab?.length) throw new Error('Meja masih punya tab yang belum dibayar. Gunakan Tutup & Tagih.');
+
+        trx.set(tableRef, { ...AVAILABLE_TABLE_FIELDS, playedMs: increment(getPlayedMs(latest)) }, { merge: true });
+
+        // Unused prepaid time: record a linked negative transaction (cash back or customer credit)
+        const unusedNow = getUnusedTimeRefund(latest);
+        if (unusedNow.amount <= 0 || refundMode === 'forfeit') return null;
+        trx.set(refundRef, {
+          date: Date.now(),
+          type: 'refund',
+          items: [{
+            itemType: 'table',
+            tableId: table.id,
+            productId: null,
+            name: `Refund ${table.name} (${unusedNow.remainingMinutes} Menit)`,
+            price: -unusedNow.amount,
+            quantity: 1,
+            variantType: null,
+            isRecipe: false,
+            duration: 0
+          }],
+          total: -unusedNow.amount,
+          cashierName: operatorName,
+          customerName,
+          amountReceived: 0,
+          change: 0,
+          paymentMethod: refundMode === 'credit' ? 'credit' : 'cash',
+          payments: [{ method: refundMode === 'credit' ? 'credit' : 'cash', amount: -unusedNow.amount, reference: refundMode === 'credit' ? customerCreditId(customerName) : null }],
+          reason: reason.trim(),
+          linkedTransactionIds: latest.sessionTransactionIds || []
+        });
+
+        if (refundMode === 'credit') {
+          trx.set(doc(db, `stores/${storeId}/customer_credits`, customerCreditId(customerName)), {
+            customerName,
+            balance: increment(unusedNow.amount),
+            updatedAt: Date.now()
+          }, { merge: true });
+        }
+        return unusedNow;
+      });
+
+      // Session history (best-effort, the table is already stopped)
+      if (table.sessionId) {
+        try {
+          if (refund) {
+            await recordSessionEvent(storeId, table.sessionId, sessionEvent('refund', operatorName, table.id, {
+              transactionId: refundRef.id, minutes: refund.remainingMinutes, note: reason.trim()
+            }));
+          }
+          await closeSession(storeId, table.sessionId, sessionEvent('stop', operatorName, table.id, {
+            minutes: getElapsedMinutes(table), note: refundMode !== 'forfeit' ? reason.trim() : undefined
+          }));
+        } catch (e) {
+          console.warn('Session stop log failed', e);
+        }
       }
       
       onClose();
@@ -1435,11 +2371,49 @@ const StopTableModal: React.FC<{ storeId: string, table: Table, onClose: () => v
         </p>
         
         <div className="bg-red-900/20 border border-red-500/50 p-3 rounded text-sm text-red-200 space-y-1">
-           <p className="flex items-center gap-2"><AlertTriangle size={14}/> Sisa waktu akan hangus.</p>
+           {(!canRefund || refundMode === 'forfeit') && <p className="flex items-center gap-2"><AlertTriangle size={14}/> Sisa waktu akan hangus.</p>}
            <p className="flex items-center gap-2"><AlertTriangle size={14}/> Status meja akan menjadi 'Tersedia'.</p>
            <p className="flex items-center gap-2"><AlertTriangle size={14}/> Lampu akan mati (jika terhubung).</p>
         </div>
 
+        {canRefund && (
+          <div className="bg-slate-900 p-3 rounded border border-slate-700 space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-400">Sisa waktu terbayar</span>
+              <span className="font-bold text-white">{unused.remainingMinutes} Menit - Rp {unused.amount.toLocaleString()}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {([['forfeit', 'Hangus'], ['refund', 'Refund Tunai'], ['credit', 'Jadi Saldo']] as const).map(([mode, label]) => (
+                <button 
+                  key={mode}
+                  onClick={() => setRefundMode(mode)}
+                  className={`py-2 rounded border text-xs font-bold ${refundMode === mode ? 'border-accent bg-accent/20 text-accent' : 'border-slate-600 text-slate-400 bg-slate-800'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {needsReason && (
+              <input 
+                type="text" 
+                placeholder="Alasan (wajib), e.g. lampu mati, pelanggan pulang"
+                className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            )}
+            {refundMode === 'credit' && (
+              <input 
+                type="text" 
+                placeholder="Nama pelanggan (wajib), saldo dicatat atas nama ini"
+                className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+                value={creditName}
+                onChange={(e) => setCreditName(e.target.value)}
+              />
+            )}
+          </div>
+        )}
+
         <div className="flex gap-3 pt-4">
           <button 
             onClick={onClose} 
@@ -1464,13 +2438,21 @@ const StopTableModal: React.FC<{ storeId: string, table: Table, onClose: () => v
 // --- New: Table Duration Selector ---
 interface TableDurationModalProps {
   table: Table;
+  schedule?: RateSchedule;
+  billingRules: BillingRules;
+  reservations: Reservation[];
   onClose: () => void;
-  onAddToOrder: (duration: number) => void;
+  onAddToOrder: (duration: number, openPlay?: boolean) => void;
 }
 
-const TableDurationModal: React.FC<TableDurationModalProps> = ({ table, onClose, onAddToOrder }) => {
+const TableDurationModal: React.FC<TableDurationModalProps> = ({ table, schedule, billingRules, reservations, onClose, onAddToOrder }) => {
   const [duration, setDuration] = useState(60);
   const isTopup = table.status === 'occupied';
+  const startAt = isTopup && table.endTime ? table.endTime : Date.now();
+  const quote = quoteTableCharge(table, schedule, billingRules, startAt, duration, isTopup ? 'topup' : 'start');
+  // Walk-in / top-up time must not run into an upcoming booking on this table
+  const bookingConflicts = findTableConflicts(table.id, startAt, quote.billedMinutes, reservations, []);
+  const nextBooking = getNextReservation(table.id, reservations, startAt);
 
   return (
     <Modal title={isTopup ? `Topup ${table.name}` : `Sewa ${table.name}`} onClose={onClose}>
@@ -1505,23 +2487,45 @@ const TableDurationModal: React.FC<TableDurationModalProps> = ({ table, onClose,
         <div className="bg-slate-900 p-4 rounded border border-slate-700">
            <div className="flex justify-between items-center">
             <span className="text-slate-400">Estimasi Biaya:</span>
-            <span className="text-xl font-bold text-white">Rp {((duration/60) * table.costPerHour).toLocaleString()}</span>
+            <span className="text-xl font-bold text-white">Rp {quote.total.toLocaleString()}</span>
            </div>
+           {quote.billedMinutes !== duration && (
+             <p className="text-xs text-yellow-400 mt-1">Dibulatkan ke {quote.billedMinutes} menit (blok {billingRules.blockMinutes} menit)</p>
+           )}
+           {quote.detailed && <PriceBreakdownLines segments={quote.breakdown} />}
         </div>
 
+        {bookingConflicts.length > 0 && (
+          <ConflictWarning conflicts={bookingConflicts} />
+        )}
+
         <button 
           onClick={() => onAddToOrder(duration)}
           className="w-full bg-accent hover:bg-emerald-600 text-primary font-bold py-3 rounded text-lg transition"
         >
           {isTopup ? '+ Tambah Durasi' : '+ Tambah ke Keranjang'}
         </button>
+
+        {!isTopup && (
+          <button 
+            onClick={() => onAddToOrder(0, true)}
+            className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded transition flex items-center justify-center gap-2"
+          >
+            <PlayCircle size={18} /> Main Bebas (Bayar Saat Selesai)
+          </button>
+        )}
+        {!isTopup && nextBooking && (
+          <p className="text-[10px] text-purple-300 text-center">
+            Main Bebas harus selesai sebelum booking {nextBooking.customerName} ({new Date(nextBooking.startTime).toLocaleString('id-ID', { weekday: 'short', hour: '2-digit', minute: '2-digit' })}).
+          </p>
+        )}
       </div>
     </Modal>
   );
 };
 
 // --- Move Table Modal ---
-const MoveTableModal: React.FC<{ storeId: string, fromTable: Table, tables: Table[], onClose: () => void }> = ({ storeId, fromTable, tables, onClose }) => {
+const MoveTableModal: React.FC<{ storeId: string, fromTable: Table, tables: Table[], operatorName: string, onClose: () => void }> = ({ storeId, fromTable, tables, operatorName, onClose }) => {
    const [loading, setLoading] = useState(false);
    const availableTables = tables.filter(t => t.status === 'available');
 
@@ -1533,40 +2537,52 @@ const MoveTableModal: React.FC<{ storeId: string, fromTable: Table, tables: Tabl
 
       try {
          // FIX: Strictly converting values to primitives to avoid undefined errors
-         const moveData = {
+         const moveData = fromTable.openPlay ? {
+            // Open play keeps counting from the original start, without endTime
+            status: 'occupied',
+            startTime: Number(fromTable.startTime || Date.now()),
+            endTime: 0,
+            duration: 0,
+            currentCustomer: String(fromTable.currentCustomer || 'Pelanggan'),
+            openPlay: true,
+            paidAmount: 0,
+            sessionTransactionIds: fromTable.sessionTransactionIds || [],
+            sessionId: fromTable.sessionId || '',
+            // Earlier pauses stay excluded from the elapsed bill
+            pausedTotalMs: Number(fromTable.pausedTotalMs || 0),
+            tab: fromTable.tab || [],
+         } : {
             status: 'occupied',
             startTime: Number(fromTable.startTime || Date.now()),
             endTime: Number(fromTable.endTime || (Date.now() + 3600000)),
             duration: Number(fromTable.duration || 60),
             currentCustomer: String(fromTable.currentCustomer || 'Pelanggan'),
+            // Paid amount moves with the session so an early stop can still be refunded
+            paidAmount: Number(fromTable.paidAmount || 0),
+            sessionTransactionIds: fromTable.sessionTransactionIds || [],
+            sessionId: fromTable.sessionId || '',
+            // Earlier pauses stay excluded from the played time
+            pausedTotalMs: Number(fromTable.pausedTotalMs || 0),
+            // Running tab moves with the players
+            tab: fromTable.tab || [],
          };
 
+         // The session keeps its start time on the new table, so the time played so far is
+         // credited to the origin and taken off the destination's share when the session ends
+         const playedSoFar = getPlayedMs(fromTable);
+
          // 1. Update To Table (Destination) using setDoc with merge (Safe)
-         await setDoc(doc(db, `stores/${storeId}/tables`, toTableId), moveData, { merge: true });
+         await setDoc(doc(db, `stores/${storeId}/tables`, toTableId), { ...moveData, playedMs: increment(-playedSoFar) }, { merge: true });
 
          // 2. Reset From Table (Origin) using setDoc with merge (Safe)
-         await setDoc(doc(db, `stores/${storeId}/tables`, fromTable.id), {
-            status: 'available',
-            startTime: 0,
-            endTime: 0,
-            currentCustomer: '',
-            duration: 0
-         }, { merge: true });
-
-         // Try toggling lamps: turn off origin, turn on destination (best-effort)
-         try {
-           const fromIdx = tables.findIndex(t => t.id === fromTable.id);
-           const toIdx = tables.findIndex(t => t.id === toTableId);
-           const fromNum = deriveTableNumber(fromTable.name, fromIdx >= 0 ? fromIdx : 0);
-           const toName = tables.find(t => t.id === toTableId)?.name;
-           const toNum = deriveTableNumber(toName, toIdx >= 0 ? toIdx : 0);
-           // If from was occupied, turn it off
-           await controlLamp(fromNum, 'off').catch(e => console.warn('control from error', e));
-           // Turn on destination with duration equal to moveData.endTime - now
-           const dur = moveData.endTime ? Math.max(0, Math.ceil((moveData.endTime - Date.now()) / 1000)) : undefined;
-           await controlLamp(toNum, 'on', dur).catch(e => console.warn('control to error', e));
-         } catch (e) {
-           console.warn('Lamp control during move failed', e);
+         await setDoc(doc(db, `stores/${storeId}/tables`, fromTable.id), { ...AVAILABLE_TABLE_FIELDS, playedMs: increment(playedSoFar) }, { merge: true });
+
+         // 3. Session history follows the players to the new table (best-effort)
+         const toName = tables.find(t => t.id === toTableId)?.name || toTableId;
+         if (fromTable.sessionId) {
+           await recordSessionEvent(storeId, fromTable.sessionId, sessionEvent('move', operatorName, toTableId, {
+             note: `${fromTable.name} -> ${toName}`
+           }), { tableId: toTableId, tableName: toName }).catch(e => console.warn('Session move log failed', e));
          }
 
          onClose();
@@ -1610,10 +2626,202 @@ const MoveTableModal: React.FC<{ storeId: string, fromTable: Table, tables: Tabl
 }
 
 
+// --- Maintenance Modal ---
+interface MaintenanceModalProps {
+  storeId: string;
+  table: Table;
+  logs: MaintenanceLogEntry[];
+  intervals: Partial<Record<MaintenanceType, number>>;
+  operatorName: string;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+const MaintenanceModal: React.FC<MaintenanceModalProps> = ({ storeId, table, logs, intervals, operatorName, isAdmin, onClose }) => {
+  const [note, setNote] = useState('');
+  const [type, setType] = useState<MaintenanceType>('cloth');
+  const [jobNote, setJobNote] = useState('');
+  const [cost, setCost] = useState(0);
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [loading, setLoading] = useState(false);
+
+  const tableRef = doc(db, `stores/${storeId}/tables`, table.id);
+
+  // Only a free table can go into maintenance; re-checked in a transaction against a sale in progress
+  const handleStartMaintenance = async () => {
+    setLoading(true);
+    try {
+      const started = await runTransaction(db, async (trx) => {
+        const snap = await trx.get(tableRef);
+        const latest = snap.data() as Table | undefined;
+        if (!latest || latest.status !== 'available') return false;
+        trx.update(tableRef, { status: 'maintenance', maintenanceNote: note.trim(), maintenanceSince: Date.now() });
+        return true;
+      });
+      if (!started) alert("Meja sedang dipakai. Selesaikan sesi dulu.");
+      setNote('');
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengubah status meja");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEndMaintenance = async () => {
+    setLoading(true);
+    try {
+      await updateDoc(tableRef, { status: 'available', maintenanceNote: '', maintenanceSince: 0 });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengubah status meja");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddLog = async () => {
+    const jobDate = new Date(`${date}T12:00:00`).getTime();
+    if (!jobDate) return;
+    setLoading(true);
+    try {
+      const entry: Omit<MaintenanceLogEntry, 'id'> = {
+        tableId: table.id,
+        tableName: table.name,
+        type,
+        note: jobNote.trim(),
+        cost: Number(cost) || 0,
+        date: jobDate,
+        playedMsAtService: getTablePlayedMs(table),
+        createdBy: operatorName,
+        createdAt: Date.now()
+      };
+      await addDoc(maintenanceLogCollection(storeId), entry);
+      setJobNote('');
+      setCost(0);
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan riwayat perawatan");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteLog = async (entry: MaintenanceLogEntry) => {
+    if (!confirm(`Hapus catatan ${MAINTENANCE_TYPE_LABEL[entry.type]} tanggal ${new Date(entry.date).toLocaleDateString('id-ID')}?`)) return;
+    try {
+      await deleteDoc(doc(maintenanceLogCollection(storeId), entry.id));
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const totalCost = logs.reduce((acc, l) => acc + (l.cost || 0), 0);
+  const tracked = (Object.keys(MAINTENANCE_TYPE_LABEL) as MaintenanceType[]).filter(t => intervals[t]);
+
+  return (
+    <Modal title={`Perawatan ${table.name}`} onClose={onClose}>
+      <div className="space-y-6">
+        <div className="bg-slate-800 p-3 rounded border border-slate-700 space-y-2">
+          {table.status === 'maintenance' ? (
+            <>
+              <p className="text-sm text-amber-300 font-bold">Sedang perawatan{table.maintenanceNote ? `: ${table.maintenanceNote}` : ''}</p>
+              {table.maintenanceSince ? <p className="text-xs text-slate-400">Sejak {new Date(table.maintenanceSince).toLocaleString('id-ID')}</p> : null}
+              <button onClick={handleEndMaintenance} disabled={loading} className="w-full bg-accent hover:bg-emerald-600 disabled:opacity-50 text-primary font-bold p-2 rounded text-sm">
+                Selesai Perawatan (Meja Tersedia)
+              </button>
+            </>
+          ) : table.status === 'occupied' ? (
+            <p className="text-sm text-slate-400">Meja sedang dipakai. Perawatan bisa dimulai setelah sesi selesai.</p>
+          ) : (
+            <>
+              <input 
+                type="text" 
+                placeholder="Alasan (e.g. ganti kain, bantalan lepas)" 
+                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <button onClick={handleStartMaintenance} disabled={loading} className="w-full bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white font-bold p-2 rounded text-sm flex items-center justify-center gap-2">
+                <Wrench size={16} /> Mulai Perawatan (Blokir Penyewaan)
+              </button>
+            </>
+          )}
+        </div>
+
+        {tracked.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-bold text-sm text-slate-300">Jam Main Sejak Servis</h4>
+            {tracked.map(t => {
+              const { hours, lastServiceAt } = getHoursSinceService(table, logs, t);
+              const ratio = Math.min(1, hours / intervals[t]!);
+              return (
+                <div key={t} className="text-xs">
+                  <div className="flex justify-between text-slate-400">
+                    <span>{MAINTENANCE_TYPE_LABEL[t]}{lastServiceAt ? ` (terakhir ${new Date(lastServiceAt).toLocaleDateString('id-ID')})` : ''}</span>
+                    <span className={ratio >= 1 ? 'text-amber-400 font-bold' : ''}>{Math.floor(hours)} / {intervals[t]} jam</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded mt-1">
+                    <div className={`h-1.5 rounded ${ratio >= 1 ? 'bg-amber-500' : 'bg-accent'}`} style={{ width: `${ratio * 100}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="bg-slate-900 p-3 rounded border border-slate-700 space-y-2">
+          <h4 className="font-bold text-sm text-slate-300">Catat Servis</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <select className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={type} onChange={(e) => setType(e.target.value as MaintenanceType)}>
+              {(Object.keys(MAINTENANCE_TYPE_LABEL) as MaintenanceType[]).map(t => <option key={t} value={t}>{MAINTENANCE_TYPE_LABEL[t]}</option>)}
+            </select>
+            <input type="date" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <input type="text" placeholder="Keterangan (e.g. Simonis 860, 2 tip)" className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={jobNote} onChange={(e) => setJobNote(e.target.value)} />
+          <div className="flex gap-2">
+            <input type="number" min={0} placeholder="Biaya (Rp)" className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={cost || ''} onChange={(e) => setCost(Number(e.target.value))} />
+            <button onClick={handleAddLog} disabled={loading} className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 rounded text-sm font-bold">
+              Simpan
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-500">Hitungan jam main untuk jenis servis ini dimulai ulang dari sekarang.</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h4 className="font-bold text-sm text-slate-300">Riwayat</h4>
+            <span className="text-xs text-slate-400">Total biaya: Rp {totalCost.toLocaleString()}</span>
+          </div>
+          {logs.length === 0 && <p className="text-xs text-slate-500">Belum ada catatan servis.</p>}
+          {logs.map(l => (
+            <div key={l.id} className="bg-slate-800 p-2 rounded border border-slate-700 flex justify-between items-start gap-2 text-xs">
+              <div>
+                <p className="text-white font-bold">{MAINTENANCE_TYPE_LABEL[l.type]} <span className="text-slate-400 font-normal">- {new Date(l.date).toLocaleDateString('id-ID')}</span></p>
+                {l.note && <p className="text-slate-400">{l.note}</p>}
+                <p className="text-slate-500">{l.createdBy} - {Math.floor(l.playedMsAtService / 3600000)} jam main</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-slate-300">Rp {(l.cost || 0).toLocaleString()}</span>
+                {isAdmin && (
+                  <button onClick={() => handleDeleteLog(l)} className="text-red-400 hover:text-red-300">
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
 // --- Table Management Modal ---
-const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose: () => void }> = ({ storeId, tables, onClose }) => {
+const TableManagementModal: React.FC<{ storeId: string, tables: Table[], rateSchedules: RateSchedule[], onClose: () => void }> = ({ storeId, tables, rateSchedules, onClose }) => {
   const [newTableName, setNewTableName] = useState('');
   const [newTableCost, setNewTableCost] = useState(20000);
+  const [newTableCategory, setNewTableCategory] = useState('');
   const [newTableRemoteOn, setNewTableRemoteOn] = useState('');
   const [newTableRemoteOff, setNewTableRemoteOff] = useState('');
   const [newTableRemoteToggle, setNewTableRemoteToggle] = useState('');
@@ -1626,11 +2834,13 @@ const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose
         name: newTableName,
         status: 'available',
         costPerHour: Number(newTableCost),
+        category: newTableCategory,
         remoteOn: newTableRemoteOn || '',
         remoteOff: newTableRemoteOff || '',
         remoteToggle: newTableRemoteToggle || ''
       });
       setNewTableName('');
+      setNewTableCategory('');
       setNewTableRemoteOn('');
       setNewTableRemoteOff('');
       setNewTableRemoteToggle('');
@@ -1656,6 +2866,18 @@ const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose
      } catch (e) { console.error(e); }
   };
 
+  const handleUpdateCategory = async (id: string, category: string) => {
+     try {
+       await updateDoc(doc(db, `stores/${storeId}/tables`, id), { category });
+     } catch (e) { console.error(e); }
+  };
+
+  const handleUpdateSchedule = async (id: string, scheduleId: string) => {
+     try {
+       await updateDoc(doc(db, `stores/${storeId}/tables`, id), { rateScheduleId: scheduleId || deleteField() });
+     } catch (e) { console.error(e); }
+  };
+
   const handleUpdateRemoteField = async (id: string, field: 'remoteOn' | 'remoteOff' | 'remoteToggle', url: string) => {
      try {
        const updateObj: any = {};
@@ -1685,6 +2907,13 @@ const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose
               value={newTableCost}
               onChange={(e) => setNewTableCost(Number(e.target.value))}
             />
+            <input 
+              type="text" 
+              placeholder="Tipe Meja (e.g. Reguler, VIP)" 
+              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+              value={newTableCategory}
+              onChange={(e) => setNewTableCategory(e.target.value)}
+            />
             <div className="grid grid-cols-3 gap-2">
               <input
                 type="text"
@@ -1739,6 +2968,29 @@ const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose
                         />
                       </div>
                       <div>
+                        <label className="text-[10px] text-slate-500">Tipe Meja</label>
+                        <input 
+                          type="text" 
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                          defaultValue={table.category}
+                          placeholder="Reguler"
+                          onBlur={(e) => handleUpdateCategory(table.id, e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-slate-500">Jadwal Tarif</label>
+                        <select
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                          value={table.rateScheduleId || ''}
+                          onChange={(e) => handleUpdateSchedule(table.id, e.target.value)}
+                        >
+                          <option value="">Flat (Harga/Jam)</option>
+                          {rateSchedules.map(rs => (
+                            <option key={rs.id} value={rs.id}>{rs.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="col-span-2">
                         <label className="text-[10px] text-slate-500">Remote ON / OFF / TOGGLE (optional)</label>
                         <div className="grid grid-cols-3 gap-2">
                           <input
@@ -1774,113 +3026,1097 @@ const TableManagementModal: React.FC<{ storeId: string, tables: Table[], onClose
 };
 
 
-// --- 3. Cafe Screen ---
-interface CafeScreenProps {
-  storeId: string;
-  products: Product[];
-  ingredients: Ingredient[];
-  onAddToCart: (product: Product, price: number, variantType?: string) => void;
-}
+// --- Rate Schedule Modal ---
+const RateScheduleModal: React.FC<{ storeId: string, rateSchedules: RateSchedule[], onClose: () => void }> = ({ storeId, rateSchedules, onClose }) => {
+  const [newScheduleName, setNewScheduleName] = useState('');
+  const [selectedId, setSelectedId] = useState<string>(rateSchedules[0]?.id || '');
 
-const CafeScreen: React.FC<CafeScreenProps> = ({ storeId, products, ingredients, onAddToCart }) => {
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState('');
-  
-  const categories = ['all', ...Array.from(new Set(products.map(p => p.category)))];
-  
-  const filteredProducts = products.filter(p => {
-    const matchCat = selectedCategory === 'all' || p.category === selectedCategory;
-    const matchSearch = p.name.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchCat && matchSearch;
-  });
+  // New band form
+  const [bandLabel, setBandLabel] = useState('');
+  const [bandDays, setBandDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [bandStart, setBandStart] = useState('10:00');
+  const [bandEnd, setBandEnd] = useState('17:00');
+  const [bandCost, setBandCost] = useState(20000);
 
-  return (
-    <div>
-      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
-        <div></div>
-        <div className="w-full md:w-auto flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-          {categories.map(cat => (
-            <button 
-              key={cat}
-              onClick={() => setSelectedCategory(cat)}
-              className={`px-4 py-2 rounded-full text-sm font-bold capitalize whitespace-nowrap transition flex-shrink-0 ${selectedCategory === cat ? 'bg-accent text-primary' : 'bg-secondary text-slate-400 hover:text-white'}`}
-            >
-              {cat}
-            </button>
-          ))}
-        </div>
-      </div>
+  const selected = rateSchedules.find(rs => rs.id === selectedId);
 
-      <div className="mb-6 relative">
-        <Search className="absolute left-3 top-3 text-slate-500" size={20} />
-        <input 
-          type="text" 
-          placeholder="Cari menu cafe..." 
-          className="w-full bg-secondary border border-slate-700 rounded-xl py-3 pl-10 pr-4 text-white focus:outline-none focus:border-accent"
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-        />
-      </div>
+  const handleAddSchedule = async () => {
+    if (!newScheduleName) return;
+    try {
+      const id = `rate-${Date.now()}`;
+      await setDoc(doc(db, `stores/${storeId}/rate_schedules`, id), { name: newScheduleName, bands: [] });
+      setNewScheduleName('');
+      setSelectedId(id);
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menambah jadwal tarif");
+    }
+  };
 
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
-        {filteredProducts.map(product => (
-          <ProductCard 
-            key={product.id} 
-            product={product} 
-            onAdd={onAddToCart} 
-          />
-        ))}
-      </div>
-    </div>
-  );
+  const handleDeleteSchedule = async (id: string) => {
+    if (confirm("Hapus jadwal tarif ini? Meja yang memakainya kembali ke harga flat.")) {
+      try {
+        await deleteDoc(doc(db, `stores/${storeId}/rate_schedules`, id));
+        setSelectedId('');
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  };
+
+  const saveBands = async (bands: RateBand[]) => {
+    if (!selected) return;
+    try {
+      await updateDoc(doc(db, `stores/${storeId}/rate_schedules`, selected.id), { bands });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan band tarif");
+    }
+  };
+
+  const handleAddBand = () => {
+    if (!selected || !bandLabel || bandDays.length === 0 || bandStart === bandEnd) return;
+    saveBands([...selected.bands, { label: bandLabel, days: bandDays, start: bandStart, end: bandEnd, costPerHour: Number(bandCost) }]);
+    setBandLabel('');
+  };
+
+  const toggleDay = (day: number) => {
+    setBandDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  return (
+    <Modal title="Atur Jadwal Tarif" onClose={onClose}>
+      <div className="space-y-6">
+        <div className="bg-slate-900 p-4 rounded border border-slate-700">
+          <h4 className="font-bold mb-2 text-sm text-slate-300">Grup Tarif</h4>
+          <div className="flex gap-2 mb-3">
+            <input 
+              type="text" 
+              placeholder="Nama grup (e.g. Reguler, VIP)" 
+              className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+              value={newScheduleName}
+              onChange={(e) => setNewScheduleName(e.target.value)}
+            />
+            <button onClick={handleAddSchedule} className="bg-blue-600 hover:bg-blue-700 px-3 rounded text-white font-bold">+</button>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            {rateSchedules.map(rs => (
+              <button 
+                key={rs.id}
+                onClick={() => setSelectedId(rs.id)}
+                className={`px-3 py-1 rounded border text-sm font-bold ${selectedId === rs.id ? 'bg-accent text-primary border-accent' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                {rs.name}
+              </button>
+            ))}
+            {rateSchedules.length === 0 && <p className="text-xs text-slate-500">Belum ada jadwal tarif.</p>}
+          </div>
+        </div>
+
+        {selected && (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <h4 className="font-bold text-sm text-slate-300">Band Tarif - {selected.name}</h4>
+              <button onClick={() => handleDeleteSchedule(selected.id)} className="text-red-400 hover:text-red-300">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <p className="text-[10px] text-slate-500">Band pertama yang cocok dipakai. Di luar semua band, meja memakai Harga/Jam-nya sendiri.</p>
+
+            {selected.bands.map((band, idx) => (
+              <div key={idx} className="bg-slate-800 p-2 rounded border border-slate-700 flex justify-between items-center text-xs">
+                <div>
+                  <p className="font-bold text-white">{band.label} - Rp {band.costPerHour.toLocaleString()}/jam</p>
+                  <p className="text-slate-400">{band.start} - {band.end} | {band.days.map(d => WEEKDAY_LABELS[d]).join(', ')}</p>
+                </div>
+                <button onClick={() => saveBands(selected.bands.filter((_, i) => i !== idx))} className="text-red-400 hover:text-white p-1">
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+
+            <div className="bg-slate-900 p-3 rounded border border-slate-700 space-y-2">
+              <input 
+                type="text" 
+                placeholder="Label (e.g. Malam)" 
+                className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+                value={bandLabel}
+                onChange={(e) => setBandLabel(e.target.value)}
+              />
+              <div className="flex gap-1 flex-wrap">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button 
+                    key={day}
+                    onClick={() => toggleDay(day)}
+                    className={`px-2 py-1 rounded text-xs font-bold border ${bandDays.includes(day) ? 'border-accent bg-accent/20 text-accent' : 'border-slate-600 text-slate-500'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <input type="time" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={bandStart} onChange={(e) => setBandStart(e.target.value)} />
+                <input type="time" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={bandEnd} onChange={(e) => setBandEnd(e.target.value)} />
+                <input type="number" placeholder="Harga/Jam" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={bandCost} onChange={(e) => setBandCost(Number(e.target.value))} />
+              </div>
+              <button 
+                onClick={handleAddBand}
+                disabled={!bandLabel || bandDays.length === 0 || bandStart === bandEnd}
+                className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white p-2 rounded text-sm font-bold"
+              >
+                + Tambah Band
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+// --- Lamp Device Registry Modal ---
+interface LampDeviceModalProps {
+  storeId: string;
+  tables: Table[];
+  lampDevices: LampDevice[];
+  operatorName: string;
+  onClose: () => void;
+}
+
+const LampDeviceModal: React.FC<LampDeviceModalProps> = ({ storeId, tables, lampDevices, operatorName, onClose }) => {
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('http://');
+  const [protocol, setProtocol] = useState<LampProtocol>('http');
+  const [channels, setChannels] = useState(8);
+  const [statusCheck, setStatusCheck] = useState(false);
+  const [mqttTopicPrefix, setMqttTopicPrefix] = useState('');
+  const [mqttUsername, setMqttUsername] = useState('');
+  const [mqttPassword, setMqttPassword] = useState('');
+  const [secret, setSecret] = useState('');
+  const [actuatorTableId, setActuatorTableId] = useState<string | null>(null);
+  const [newActuatorKind, setNewActuatorKind] = useState<ActuatorKind>('scoreboard');
+
+  // 128-bit random secret, copied into the board's firmware
+  const generateSecret = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+  const handleChangeProtocol = (p: LampProtocol) => {
+    setProtocol(p);
+    if (p === 'mqtt' && baseUrl === 'http://') setBaseUrl('wss://');
+    if (p !== 'mqtt' && baseUrl === 'wss://') setBaseUrl('http://');
+  };
+
+  const handleAddDevice = async () => {
+    if (!name || !baseUrl) return;
+    try {
+      const mqttFields = protocol === 'mqtt'
+        ? { topicPrefix: mqttTopicPrefix.trim() || null, username: mqttUsername.trim() || null, password: mqttPassword || null }
+        : {};
+      await addDoc(lampDeviceCollection(storeId), { name, baseUrl: baseUrl.trim(), protocol, channels: Number(channels), statusCheck, secret: secret.trim() || null, ...mqttFields });
+      setName('');
+      setBaseUrl(protocol === 'mqtt' ? 'wss://' : 'http://');
+      setMqttTopicPrefix('');
+      setMqttUsername('');
+      setMqttPassword('');
+      setSecret('');
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menambah perangkat lampu");
+    }
+  };
+
+  const handleUpdateDevice = async (id: string, patch: Partial<LampDevice>) => {
+    try {
+      await updateDoc(doc(lampDeviceCollection(storeId), id), patch);
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan perangkat lampu");
+    }
+  };
+
+  const handleDeleteDevice = async (device: LampDevice) => {
+    const mapped = tables.filter(t => t.lampDeviceId === device.id);
+    if (mapped.length > 0) {
+      alert(`Perangkat masih dipakai oleh: ${mapped.map(t => t.name).join(', ')}. Pindahkan mejanya dulu.`);
+      return;
+    }
+    if (confirm(`Hapus perangkat ${device.name}?`)) {
+      try {
+        await deleteDoc(doc(lampDeviceCollection(storeId), device.id));
+      } catch (e) {
+        console.error(e);
+      }
+    }
+  };
+
+  const handleMapTable = async (tableId: string, lampDeviceId: string, lampChannel: number) => {
+    try {
+      await updateDoc(doc(db, `stores/${storeId}/tables`, tableId), { lampDeviceId, lampChannel });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan pemetaan lampu");
+    }
+  };
+
+  // Old single-board setup: register the board and map each table by the number in its name
+  const handleImportLegacy = async () => {
+    try {
+      const ref = await addDoc(lampDeviceCollection(storeId), LEGACY_LAMP_DEVICE);
+      await Promise.all(tables.map((t, idx) => updateDoc(doc(db, `stores/${storeId}/tables`, t.id), {
+        lampDeviceId: ref.id,
+        lampChannel: deriveTableNumber(t.name, idx)
+      })));
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengimpor perangkat lama");
+    }
+  };
+
+  // Dev/training: register the in-browser simulator and give every unmapped table a channel
+  const handleAddSimulator = async () => {
+    try {
+      const unmapped = tables.filter(t => !t.lampDeviceId);
+      const ref = await addDoc(lampDeviceCollection(storeId), { ...SIMULATOR_DEVICE, channels: Math.max(SIMULATOR_DEVICE.channels, unmapped.length) });
+      await Promise.all(unmapped.map((t, idx) => updateDoc(doc(db, `stores/${storeId}/tables`, t.id), {
+        lampDeviceId: ref.id,
+        lampChannel: idx + 1
+      })));
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menambah simulator lampu");
+    }
+  };
+
+  // Goes through the lamp controller like any other command
+  const handleTest = async (table: Table) => {
+    try {
+      await enqueueLampCommand(storeId, `test-${table.id}-${Date.now()}`, { tableId: table.id, action: 'blink', createdBy: operatorName });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengirim tes lampu");
+    }
+  };
+
+  const handleSaveActuators = async (table: Table, actuators: TableActuator[]) => {
+    try {
+      await updateDoc(doc(db, `stores/${storeId}/tables`, table.id), { actuators });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan aktuator");
+    }
+  };
+
+  const handleUpdateActuator = (table: Table, id: string, patch: Partial<TableActuator>) =>
+    handleSaveActuators(table, (table.actuators || []).map(a => a.id === id ? { ...a, ...patch } : a));
+
+  const handleTestActuator = async (table: Table, actuator: TableActuator) => {
+    try {
+      await enqueueLampCommand(storeId, `test-${table.id}-${actuator.id}-${Date.now()}`, { tableId: table.id, action: 'blink', actuatorIds: [actuator.id], createdBy: operatorName });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengirim tes aktuator");
+    }
+  };
+
+  // Two tables (or actuators) on the same board channel would switch each other
+  const channelOwners = new Map<string, string[]>();
+  tables.forEach(t => {
+    getTableActuators(t).forEach(a => {
+      if (!a.lampDeviceId || !a.channel) return;
+      const key = `${a.lampDeviceId}#${a.channel}`;
+      const label = a.id === PRIMARY_LAMP_ID ? t.name : `${t.name} (${a.name})`;
+      channelOwners.set(key, [...(channelOwners.get(key) || []), label]);
+    });
+  });
+
+  return (
+    <Modal title="Atur Perangkat Lampu" onClose={onClose}>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="font-bold text-sm text-slate-300">Perangkat (Controller)</h4>
+          {lampDevices.length === 0 && (
+            <div className="bg-slate-900 p-3 rounded border border-slate-700 text-xs text-slate-400 space-y-2">
+              <p>Belum ada perangkat. Lampu meja tidak akan menyala sebelum meja dipetakan ke perangkat.</p>
+              <button onClick={handleImportLegacy} className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded font-bold">
+                Impor ESP lama ({LEGACY_LAMP_DEVICE.baseUrl})
+              </button>
+            </div>
+          )}
+          {LAMP_SIMULATOR_ENABLED && !lampDevices.some(d => isSimulatorUrl(d.baseUrl)) && (
+            <div className="bg-slate-900 p-3 rounded border border-dashed border-yellow-700/60 text-xs text-slate-400 space-y-2">
+              <p>Mode pengembangan: gunakan simulator lampu di browser ini, tanpa ESP. Meja yang belum dipetakan langsung mendapat channel.</p>
+              <button onClick={handleAddSimulator} className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1.5 rounded font-bold">
+                Tambah Simulator Lampu
+              </button>
+            </div>
+          )}
+          {lampDevices.map(d => (
+            <div key={d.id} className="bg-slate-800 p-3 rounded border border-slate-700 space-y-2">
+              <div className="flex gap-2 items-center">
+                <input 
+                  type="text" 
+                  className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white font-bold"
+                  defaultValue={d.name}
+                  onBlur={(e) => e.target.value !== d.name && handleUpdateDevice(d.id, { name: e.target.value })}
+                />
+                <button onClick={() => handleDeleteDevice(d)} className="text-red-400 hover:text-red-300 p-1">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <input 
+                type="text" 
+                className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono"
+                defaultValue={d.baseUrl}
+                onBlur={(e) => e.target.value !== d.baseUrl && handleUpdateDevice(d.id, { baseUrl: e.target.value.trim() })}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <select 
+                  className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                  value={d.protocol}
+                  onChange={(e) => handleUpdateDevice(d.id, { protocol: e.target.value as LampProtocol })}
+                >
+                  {(Object.keys(LAMP_PROTOCOL_LABEL) as LampProtocol[]).map(p => <option key={p} value={p}>{LAMP_PROTOCOL_LABEL[p]}</option>)}
+                </select>
+                <div className="flex items-center gap-1">
+                  <input 
+                    type="number" 
+                    min={1}
+                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                    defaultValue={d.channels}
+                    onBlur={(e) => Number(e.target.value) !== d.channels && handleUpdateDevice(d.id, { channels: Math.max(1, Number(e.target.value)) })}
+                  />
+                  <span className="text-[10px] text-slate-500">channel</span>
+                </div>
+              </div>
+              {d.protocol === 'mqtt' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <input 
+                    type="text" 
+                    placeholder={`zyra/lamp/${d.id}`}
+                    className="col-span-3 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono"
+                    defaultValue={d.topicPrefix || ''}
+                    onBlur={(e) => e.target.value.trim() !== (d.topicPrefix || '') && handleUpdateDevice(d.id, { topicPrefix: e.target.value.trim() || null })}
+                  />
+                  <input 
+                    type="text" 
+                    placeholder="Username broker"
+                    className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                    defaultValue={d.username || ''}
+                    onBlur={(e) => e.target.value.trim() !== (d.username || '') && handleUpdateDevice(d.id, { username: e.target.value.trim() || null })}
+                  />
+                  <input 
+                    type="password" 
+                    placeholder="Password broker"
+                    className="col-span-2 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                    defaultValue={d.password || ''}
+                    onBlur={(e) => e.target.value !== (d.password || '') && handleUpdateDevice(d.id, { password: e.target.value || null })}
+                  />
+                </div>
+              )}
+              <div className="flex gap-2 items-center">
+                <input 
+                  key={d.secret || 'none'}
+                  type="text" 
+                  placeholder="Secret HMAC (kosong = tanpa tanda tangan)"
+                  className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white font-mono"
+                  defaultValue={d.secret || ''}
+                  onBlur={(e) => e.target.value.trim() !== (d.secret || '') && handleUpdateDevice(d.id, { secret: e.target.value.trim() || null })}
+                />
+                {!d.secret && (
+                  <button onClick={() => handleUpdateDevice(d.id, { secret: generateSecret() })} className="text-[10px] bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded">
+                    Buat
+                  </button>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input type="checkbox" checked={!!d.statusCheck} onChange={(e) => handleUpdateDevice(d.id, { statusCheck: e.target.checked })} />
+                Cek status berkala (firmware mendukung status)
+              </label>
+            </div>
+          ))}
+
+          <div className="bg-slate-900 p-3 rounded border border-slate-700 space-y-2">
+            <input 
+              type="text" 
+              placeholder="Nama (e.g. ESP Lantai 2)" 
+              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <input 
+              type="text" 
+              placeholder={protocol === 'mqtt' ? "Broker WebSocket (e.g. wss://broker.local:8884/mqtt)" : "Base URL (e.g. http://192.168.100.121/led)"} 
+              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm font-mono"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <select className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={protocol} onChange={(e) => handleChangeProtocol(e.target.value as LampProtocol)}>
+                {(Object.keys(LAMP_PROTOCOL_LABEL) as LampProtocol[]).map(p => <option key={p} value={p}>{LAMP_PROTOCOL_LABEL[p]}</option>)}
+              </select>
+              <input type="number" min={1} placeholder="Jumlah Channel" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={channels} onChange={(e) => setChannels(Number(e.target.value))} />
+            </div>
+            {protocol === 'mqtt' && (
+              <div className="grid grid-cols-3 gap-2">
+                <input type="text" placeholder="Topic prefix (default zyra/lamp/{id})" className="col-span-3 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm font-mono" value={mqttTopicPrefix} onChange={(e) => setMqttTopicPrefix(e.target.value)} />
+                <input type="text" placeholder="Username" className="bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={mqttUsername} onChange={(e) => setMqttUsername(e.target.value)} />
+                <input type="password" placeholder="Password" className="col-span-2 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm" value={mqttPassword} onChange={(e) => setMqttPassword(e.target.value)} />
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input type="text" placeholder="Secret HMAC (opsional)" className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm font-mono" value={secret} onChange={(e) => setSecret(e.target.value)} />
+              <button onClick={() => setSecret(generateSecret())} className="bg-slate-700 hover:bg-slate-600 text-white px-3 rounded text-xs font-bold">
+                Buat
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input type="checkbox" checked={statusCheck} onChange={(e) => setStatusCheck(e.target.checked)} />
+              Cek status berkala (firmware mendukung status)
+            </label>
+            <button 
+              onClick={handleAddDevice}
+              disabled={!name || !baseUrl}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white p-2 rounded text-sm font-bold"
+            >
+              + Tambah Perangkat
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-bold text-sm text-slate-300">Pemetaan Meja</h4>
+          <p className="text-[10px] text-slate-500">URL ON/OFF/TOGGLE khusus di Atur Meja tetap diprioritaskan jika diisi.</p>
+          {tables.map(t => {
+            const device = lampDevices.find(d => d.id === t.lampDeviceId);
+            const target = resolveTableLamp(t, lampDevices);
+            const shared = t.lampDeviceId && t.lampChannel ? (channelOwners.get(`${t.lampDeviceId}#${t.lampChannel}`) || []).filter(n => n !== t.name) : [];
+            return (
+              <div key={t.id} className="bg-slate-800 p-2 rounded border border-slate-700">
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm font-bold text-white w-24 truncate">{t.name}</span>
+                  <select 
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                    value={t.lampDeviceId || ''}
+                    onChange={(e) => handleMapTable(t.id, e.target.value, t.lampChannel || 1)}
+                  >
+                    <option value="">- Tidak ada -</option>
+                    {lampDevices.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                  <select 
+                    className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                    value={t.lampChannel || ''}
+                    disabled={!device}
+                    onChange={(e) => handleMapTable(t.id, t.lampDeviceId || '', Number(e.target.value))}
+                  >
+                    {!t.lampChannel && <option value="">-</option>}
+                    {device && Array.from({ length: device.channels }, (_, i) => i + 1).map(ch => <option key={ch} value={ch}>CH {ch}</option>)}
+                  </select>
+                  <button 
+                    onClick={() => handleTest(t)}
+                    disabled={!target.device}
+                    className="text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 px-2 py-1 rounded"
+                    title="Kedipkan lampu meja ini"
+                  >
+                    Tes
+                  </button>
+                  <button 
+                    onClick={() => setActuatorTableId(actuatorTableId === t.id ? null : t.id)}
+                    className={`text-xs px-2 py-1 rounded ${actuatorTableId === t.id ? 'bg-blue-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+                    title="Papan skor, kunci bola, stop kontak, dll."
+                  >
+                    +{(t.actuators || []).length}
+                  </button>
+                </div>
+                {t.lampDeviceId && !target.device && <p className="text-[10px] text-red-400 mt-1">{target.error}</p>}
+                {shared.length > 0 && <p className="text-[10px] text-yellow-400 mt-1">Channel sama dengan: {shared.join(', ')}</p>}
+                {actuatorTableId === t.id && (
+                  <div className="mt-2 pt-2 border-t border-slate-700 space-y-2">
+                    {(t.actuators || []).map(a => {
+                      const actuatorDevice = lampDevices.find(d => d.id === a.lampDeviceId);
+                      const actuatorShared = (channelOwners.get(`${a.lampDeviceId}#${a.channel}`) || []).filter(n => n !== `${t.name} (${a.name})`);
+                      return (
+                        <div key={a.id} className="bg-slate-900 p-2 rounded border border-slate-700 space-y-2">
+                          <div className="flex gap-2 items-center">
+                            <span className="text-[10px] text-slate-400 w-16 shrink-0">{ACTUATOR_KIND_LABEL[a.kind]}</span>
+                            <input 
+                              type="text" 
+                              className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                              defaultValue={a.name}
+                              onBlur={(e) => e.target.value.trim() && e.target.value !== a.name && handleUpdateActuator(t, a.id, { name: e.target.value.trim() })}
+                            />
+                            <button onClick={() => handleTestActuator(t, a)} disabled={!actuatorDevice} className="text-[10px] bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 px-2 py-1 rounded">Tes</button>
+                            <button onClick={() => handleSaveActuators(t, (t.actuators || []).filter(x => x.id !== a.id))} className="text-red-400 hover:text-red-300 p-1">
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                          <div className="flex gap-2">
+                            <select 
+                              className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                              value={a.lampDeviceId}
+                              onChange={(e) => handleUpdateActuator(t, a.id, { lampDeviceId: e.target.value })}
+                            >
+                              <option value="">- Pilih perangkat -</option>
+                              {lampDevices.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                            </select>
+                            <select 
+                              className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                              value={a.channel}
+                              disabled={!actuatorDevice}
+                              onChange={(e) => handleUpdateActuator(t, a.id, { channel: Number(e.target.value) })}
+                            >
+                              {actuatorDevice && Array.from({ length: actuatorDevice.channels }, (_, i) => i + 1).map(ch => <option key={ch} value={ch}>CH {ch}</option>)}
+                            </select>
+                          </div>
+                          <div className="grid grid-cols-4 gap-1">
+                            {ACTUATOR_TRIGGERS.map(trigger => (
+                              <label key={trigger} className="text-[10px] text-slate-400">
+                                {ACTUATOR_TRIGGER_LABEL[trigger]}
+                                <select 
+                                  className="w-full bg-slate-800 border border-slate-600 rounded px-1 py-1 text-[10px] text-white uppercase"
+                                  value={a.triggers[trigger] || ''}
+                                  onChange={(e) => {
+                                    const triggers = { ...a.triggers };
+                                    if (e.target.value) triggers[trigger] = e.target.value as LampAction;
+                                    else delete triggers[trigger];
+                                    handleUpdateActuator(t, a.id, { triggers });
+                                  }}
+                                >
+                                  <option value="">-</option>
+                                  {(['on', 'off', 'toggle', 'blink'] as LampAction[]).map(action => <option key={action} value={action}>{action}</option>)}
+                                </select>
+                              </label>
+                            ))}
+                          </div>
+                          <label className="flex items-center gap-2 text-[10px] text-slate-400">
+                            <input type="checkbox" checked={a.sendDuration} onChange={(e) => handleUpdateActuator(t, a.id, { sendDuration: e.target.checked })} />
+                            Kirim sisa waktu saat ON (perangkat mati sendiri)
+                          </label>
+                          {actuatorShared.length > 0 && <p className="text-[10px] text-yellow-400">Channel sama dengan: {actuatorShared.join(', ')}</p>}
+                        </div>
+                      );
+                    })}
+                    <div className="flex gap-2">
+                      <select 
+                        className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+                        value={newActuatorKind}
+                        onChange={(e) => setNewActuatorKind(e.target.value as ActuatorKind)}
+                      >
+                        {(Object.keys(ACTUATOR_KIND_LABEL) as ActuatorKind[]).map(k => <option key={k} value={k}>{ACTUATOR_KIND_LABEL[k]}</option>)}
+                      </select>
+                      <button 
+                        onClick={() => handleSaveActuators(t, [...(t.actuators || []), createActuator(newActuatorKind, t.lampDeviceId || lampDevices[0]?.id || '', 1)])}
+                        disabled={lampDevices.length === 0}
+                        className="text-xs bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded font-bold"
+                      >
+                        + Aktuator
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// --- Lamp Simulator Panel ---
+interface LampSimulatorPanelProps {
+  tables: Table[];
+  lampDevices: LampDevice[];
+  isLampController: boolean;
+  onClose: () => void;
+}
+
+const LampSimulatorPanel: React.FC<LampSimulatorPanelProps> = ({ tables, lampDevices, isLampController, onClose }) => {
+  const [, setTick] = useState(0);
+
+  // Re-render on every simulated relay change, and each second for the countdowns
+  useEffect(() => {
+    const unsubscribe = subscribeSimulator(() => setTick(t => t + 1));
+    const interval = setInterval(() => setTick(t => t + 1), 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  const simDevices = lampDevices.filter(d => isSimulatorUrl(d.baseUrl));
+
+  return (
+    <div className="fixed bottom-20 md:bottom-4 right-4 z-40 w-[22rem] max-w-[calc(100vw-2rem)] bg-slate-900 border border-yellow-700/60 rounded-xl shadow-2xl p-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-white text-sm flex items-center gap-2"><Lightbulb size={16} className="text-yellow-400" /> Simulator Lampu</h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={16} /></button>
+      </div>
+      {!isLampController && (
+        <p className="text-[10px] text-amber-400">Perangkat ini bukan Pengendali Lampu. Lampu simulator hanya bergerak di perangkat pengendali.</p>
+      )}
+      {simDevices.length === 0 && (
+        <p className="text-xs text-slate-400">Belum ada simulator. Tambahkan lewat Billiard &gt; Atur Lampu.</p>
+      )}
+      {simDevices.map(device => {
+        const channels = getSimulatedChannels(device.baseUrl);
+        const offline = isSimulatorOffline(device.baseUrl);
+        return (
+          <div key={device.id} className="space-y-2">
+            <div className="flex justify-between items-center">
+              <p className="text-xs font-bold text-slate-300">{device.name} {offline && <span className="text-red-400">(offline)</span>}</p>
+              <div className="flex gap-1">
+                <button onClick={() => rebootSimulator(device.baseUrl)} className="text-[10px] bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded">Reboot</button>
+                <button onClick={() => setSimulatorOffline(device.baseUrl, 30)} className="text-[10px] bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded">Offline 30s</button>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {Array.from({ length: device.channels }, (_, idx) => {
+                const ch = channels[idx] || { on: false };
+                const owner = tables.flatMap(t => getTableActuators(t)
+                  .filter(a => a.lampDeviceId === device.id && a.channel === idx + 1)
+                  .map(a => a.id === PRIMARY_LAMP_ID ? t.name : `${t.name} · ${a.name}`))[0];
+                const blinking = !!ch.blinkUntil && ch.blinkUntil > Date.now();
+                const remaining = ch.on && ch.offAt ? Math.max(0, Math.ceil((ch.offAt - Date.now()) / 1000)) : null;
+                return (
+                  <div key={idx} className={`rounded-lg p-2 text-center border ${ch.on ? 'bg-yellow-500/20 border-yellow-500/60' : 'bg-slate-800 border-slate-700'}`}>
+                    <Lightbulb size={20} className={`mx-auto ${ch.on ? 'text-yellow-300' : 'text-slate-600'} ${blinking ? 'animate-pulse' : ''}`} />
+                    <p className="text-[10px] text-slate-300 truncate">{owner || `CH ${idx + 1}`}</p>
+                    <p className="text-[10px] font-mono text-slate-500">
+                      {remaining !== null ? `${Math.floor(remaining / 60)}:${String(remaining % 60).padStart(2, '0')}` : ch.on ? 'ON' : 'OFF'}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- 3. Cafe Screen ---
+interface CafeScreenProps {
+  storeId: string;
+  products: Product[];
+  ingredients: Ingredient[];
+  onAddToCart: (product: Product, price: number, variantType?: string) => void;
+}
+
+const CafeScreen: React.FC<CafeScreenProps> = ({ storeId, products, ingredients, onAddToCart }) => {
+  const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  
+  const categories = ['all', ...Array.from(new Set(products.map(p => p.category)))];
+  
+  const filteredProducts = products.filter(p => {
+    const matchCat = selectedCategory === 'all' || p.category === selectedCategory;
+    const matchSearch = p.name.toLowerCase().includes(searchQuery.toLowerCase());
+    return matchCat && matchSearch;
+  });
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div></div>
+        <div className="w-full md:w-auto flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+          {categories.map(cat => (
+            <button 
+              key={cat}
+              onClick={() => setSelectedCategory(cat)}
+              className={`px-4 py-2 rounded-full text-sm font-bold capitalize whitespace-nowrap transition flex-shrink-0 ${selectedCategory === cat ? 'bg-accent text-primary' : 'bg-secondary text-slate-400 hover:text-white'}`}
+            >
+              {cat}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-6 relative">
+        <Search className="absolute left-3 top-3 text-slate-500" size={20} />
+        <input 
+          type="text" 
+          placeholder="Cari menu cafe..." 
+          className="w-full bg-secondary border border-slate-700 rounded-xl py-3 pl-10 pr-4 text-white focus:outline-none focus:border-accent"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
+        {filteredProducts.map(product => (
+          <ProductCard 
+            key={product.id} 
+            product={product} 
+            onAdd={onAddToCart} 
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ProductCard: React.FC<{ product: Product, onAdd: (p: Product, price: number, variant?: string) => void }> = ({ product, onAdd }) => {
+  const isOutOfStock = !product.isRecipe && product.stock <= 0;
+  
+  return (
+    <div className={`bg-secondary rounded-xl p-3 md:p-4 border border-slate-700 hover:border-accent transition flex flex-col justify-between group ${isOutOfStock ? 'opacity-50' : ''}`}>
+      <div>
+        <div className="flex justify-between items-start mb-2">
+          <div className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-slate-800 flex items-center justify-center text-orange-400">
+             {product.isRecipe ? <ChefHat size={18} /> : <Package size={18} />}
+          </div>
+          {!product.isRecipe && (
+             <span className={`text-[10px] px-2 py-1 rounded font-bold ${isOutOfStock ? 'bg-red-500/20 text-red-500' : 'bg-slate-800 text-slate-400'}`}>
+                {product.stock}
+             </span>
+          )}
+        </div>
+        <h3 className="font-bold text-white leading-tight mb-1 text-sm md:text-base line-clamp-2">{product.name}</h3>
+        <p className="text-[10px] md:text-xs text-slate-400 mb-3">{product.category}</p>
+      </div>
+      
+      {product.isVariant && product.variants && product.variants.length > 0 ? (
+         <div className="space-y-1 md:space-y-2 mt-2">
+            {product.variants.map((v, idx) => (
+               <button 
+                 key={idx}
+                 onClick={() => onAdd(product, v.price, v.name)}
+                 className="w-full bg-slate-800 hover:bg-accent hover:text-primary text-slate-300 text-[10px] md:text-xs py-2 rounded flex justify-between px-2 transition active:scale-95"
+               >
+                 <span>{v.name}</span>
+                 <span className="font-bold">Rp {v.price.toLocaleString()}</span>
+               </button>
+            ))}
+         </div>
+      ) : (
+         <div className="flex items-center justify-between mt-2">
+            <span className="font-bold text-accent text-sm md:text-base">Rp {product.price.toLocaleString()}</span>
+            <button 
+               onClick={() => !isOutOfStock && onAdd(product, product.price)}
+               disabled={isOutOfStock}
+               className="bg-slate-700 hover:bg-accent hover:text-primary text-white p-2 rounded-lg transition active:scale-95"
+            >
+               <Plus size={16} />
+            </button>
+         </div>
+      )}
+    </div>
+  );
+};
+
+// --- Booking Screen ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const RESERVATION_STATUS_LABEL: Record<Reservation['status'], string> = {
+  booked: 'Booking',
+  arrived: 'Datang',
+  cancelled: 'Batal',
+  no_show: 'Tidak Datang'
+};
+
+interface ReservationScreenProps {
+  storeId: string;
+  tables: Table[];
+  reservations: Reservation[];
+  operatorName: string;
+}
+
+const ReservationScreen: React.FC<ReservationScreenProps> = ({ storeId, tables, reservations, operatorName }) => {
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [selectedDate, setSelectedDate] = useState(() => startOfDay(Date.now()));
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [detail, setDetail] = useState<Reservation | null>(null);
+
+  // Week starts on Monday
+  const weekStart = useMemo(() => {
+    const d = new Date(selectedDate);
+    const offset = (d.getDay() + 6) % 7;
+    return selectedDate - offset * DAY_MS;
+  }, [selectedDate]);
+
+  const shiftDate = (dir: number) => {
+    const d = new Date(selectedDate);
+    d.setDate(d.getDate() + dir * (view === 'day' ? 1 : 7));
+    setSelectedDate(startOfDay(d.getTime()));
+  };
+
+  const visible = reservations.filter(r => r.status !== 'cancelled');
+  const dayEnd = selectedDate + DAY_MS;
+  const tableName = (id: string) => tables.find(t => t.id === id)?.name || id;
+
+  const handleStatus = async (r: Reservation, status: Reservation['status']) => {
+    const reservationRef = doc(db, `stores/${storeId}/reservations`, r.id);
+    const deposit = r.depositStatus === 'held' ? r.deposit || 0 : 0;
+    try {
+      if (deposit > 0 && status === 'cancelled') {
+        // Cancelled booking: the DP goes back in cash and is taken off the customer's credit
+        const creditRef = doc(db, `stores/${storeId}/customer_credits`, customerCreditId(r.customerName));
+        await runTransaction(db, async (trx) => {
+          const latest = (await trx.get(reservationRef)).data() as Reservation | undefined;
+          const creditSnap = await trx.get(creditRef);
+          if (!latest || latest.status !== 'booked' || latest.depositStatus !== 'held') {
+            throw new Error('Booking sudah diubah di perangkat lain');
+          }
+          const balance = creditSnap.exists() ? (creditSnap.data() as CustomerCredit).balance || 0 : 0;
+          if (balance < deposit) {
+            throw new Error(`DP sudah terpakai, saldo ${r.customerName} tinggal Rp ${balance.toLocaleString()}`);
+          }
+          trx.set(doc(collection(db, `stores/${storeId}/transactions`)), buildDepositTransaction(
+            r, tableName(r.tableId), -deposit, creditRef.id, operatorName, r.depositTransactionId ? [r.depositTransactionId] : []
+          ));
+          trx.update(creditRef, { balance: balance - deposit, updatedAt: Date.now() });
+          trx.update(reservationRef, { status, depositStatus: 'released' });
+        });
+        alert(`DP Rp ${deposit.toLocaleString()} dikembalikan tunai ke ${r.customerName}`);
+      } else {
+        // Arrived: the DP is already on the customer's credit and is paid with "Saldo" at checkout.
+        // No-show: it stays there as the customer's credit.
+        await updateDoc(reservationRef, { status, ...(deposit > 0 && status === 'arrived' ? { depositStatus: 'applied' } : {}) });
+        if (deposit > 0 && status === 'arrived') {
+          alert(`DP Rp ${deposit.toLocaleString()} ada di saldo ${r.customerName}. Pakai saldo saat checkout dengan nama yang sama.`);
+        }
+      }
+      setDetail(null);
+    } catch (e: any) {
+      console.error(e);
+      alert(`Gagal mengubah status booking: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <button onClick={() => shiftDate(-1)} className="p-2 bg-slate-800 hover:bg-slate-700 rounded text-white"><ChevronLeft size={18} /></button>
+          <button onClick={() => setSelectedDate(startOfDay(Date.now()))} className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded text-sm text-white">Hari Ini</button>
+          <button onClick={() => shiftDate(1)} className="p-2 bg-slate-800 hover:bg-slate-700 rounded text-white"><ChevronRight size={18} /></button>
+          <span className="font-bold text-white ml-2">
+            {view === 'day'
+              ? new Date(selectedDate).toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long' })
+              : `${new Date(weekStart).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })} - ${new Date(weekStart + 6 * DAY_MS).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}`}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <div className="flex bg-slate-800 rounded overflow-hidden">
+            <button onClick={() => setView('day')} className={`px-3 py-2 text-sm font-bold ${view === 'day' ? 'bg-accent text-primary' : 'text-slate-400'}`}>Hari</button>
+            <button onClick={() => setView('week')} className={`px-3 py-2 text-sm font-bold ${view === 'week' ? 'bg-accent text-primary' : 'text-slate-400'}`}>Minggu</button>
+          </div>
+          <button onClick={() => setIsAddOpen(true)} className="bg-accent hover:bg-emerald-600 text-primary px-3 py-2 rounded font-bold flex items-center gap-2 text-sm">
+            <Plus size={16} /> Booking
+          </button>
+        </div>
+      </div>
+
+      {view === 'day' ? (
+        <div className="bg-secondary rounded-xl border border-slate-700 p-4 overflow-x-auto">
+          <div className="min-w-[720px] space-y-2">
+            <div className="flex pl-24 text-[10px] text-slate-500">
+              {Array.from({ length: 12 }, (_, i) => (
+                <span key={i} className="flex-1">{String(i * 2).padStart(2, '0')}:00</span>
+              ))}
+            </div>
+            {tables.map(table => {
+              const blocks = visible.filter(r => r.tableId === table.id && r.startTime < dayEnd && reservationEnd(r) > selectedDate);
+              const liveEnd = table.status === 'occupied' ? (table.endTime || Date.now()) : 0;
+              const showLive = table.status === 'occupied' && table.startTime && table.startTime < dayEnd && liveEnd > selectedDate;
+              const toPct = (ts: number) => Math.min(100, Math.max(0, (ts - selectedDate) / DAY_MS * 100));
+              return (
+                <div key={table.id} className="flex items-center">
+                  <span className="w-24 shrink-0 text-sm font-bold text-white truncate">{table.name}</span>
+                  <div className="relative flex-1 h-10 bg-slate-900 rounded border border-slate-800">
+                    {showLive && (
+                      <div
+                        className="absolute top-0 bottom-0 bg-red-600/40 border border-red-500 rounded"
+                        style={{ left: `${toPct(table.startTime!)}%`, width: `${toPct(liveEnd) - toPct(table.startTime!)}%` }}
+                        title="Sedang dipakai"
+                      />
+                    )}
+                    {blocks.map(r => (
+                      <button
+                        key={r.id}
+                        onClick={() => setDetail(r)}
+                        className={`absolute top-1 bottom-1 rounded px-1 text-[10px] text-left truncate ${r.status === 'booked' ? 'bg-purple-600 text-white' : 'bg-slate-600 text-slate-300'}`}
+                        style={{ left: `${toPct(r.startTime)}%`, width: `${Math.max(1, toPct(reservationEnd(r)) - toPct(r.startTime))}%` }}
+                        title={`${r.customerName} (${RESERVATION_STATUS_LABEL[r.status]})`}
+                      >
+                        {r.customerName}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {Array.from({ length: 7 }, (_, i) => {
+            const dayStart = weekStart + i * DAY_MS;
+            const dayItems = visible
+              .filter(r => r.startTime >= dayStart && r.startTime < dayStart + DAY_MS)
+              .sort((a, b) => a.startTime - b.startTime);
+            return (
+              <div key={i} className={`bg-secondary rounded-xl border p-2 min-h-[120px] ${dayStart === startOfDay(Date.now()) ? 'border-accent' : 'border-slate-700'}`}>
+                <p className="text-xs font-bold text-slate-300 mb-2">{new Date(dayStart).toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric' })}</p>
+                <div className="space-y-1">
+                  {dayItems.map(r => (
+                    <button key={r.id} onClick={() => setDetail(r)} className={`w-full text-left p-1 rounded text-[10px] ${r.status === 'booked' ? 'bg-purple-900/40 text-purple-200' : 'bg-slate-800 text-slate-400'}`}>
+                      <span className="font-bold">{new Date(r.startTime).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}</span> {tableName(r.tableId)}
+                      <span className="block truncate">{r.customerName}</span>
+                    </button>
+                  ))}
+                  {dayItems.length === 0 && <p className="text-[10px] text-slate-600">-</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isAddOpen && (
+        <ReservationModal 
+          storeId={storeId}
+          tables={tables}
+          reservations={reservations}
+          operatorName={operatorName}
+          defaultDate={selectedDate}
+          onClose={() => setIsAddOpen(false)}
+        />
+      )}
+
+      {detail && (
+        <Modal title={`Booking ${tableName(detail.tableId)}`} onClose={() => setDetail(null)}>
+          <div className="space-y-4">
+            <div className="bg-slate-900 p-3 rounded border border-slate-700 text-sm space-y-1">
+              <p className="text-white font-bold">{detail.customerName}</p>
+              <p className="text-slate-400 flex items-center gap-2"><Phone size={12} /> {detail.phone || '-'}</p>
+              <p className="text-slate-400">{new Date(detail.startTime).toLocaleString('id-ID', { weekday: 'long', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })} ({detail.duration} Menit)</p>
+              {!!detail.deposit && <p className="text-emerald-400">DP: Rp {detail.deposit.toLocaleString()}{detail.depositStatus ? ` (${DEPOSIT_STATUS_LABEL[detail.depositStatus]})` : ''}</p>}
+              {detail.note && <p className="text-slate-500 text-xs">{detail.note}</p>}
+              <p className="text-xs text-slate-500">Status: {RESERVATION_STATUS_LABEL[detail.status]} - dicatat oleh {detail.createdBy}</p>
+            </div>
+            {detail.status === 'booked' && (
+              <div className="grid grid-cols-3 gap-2">
+                <button onClick={() => handleStatus(detail, 'arrived')} className="bg-accent hover:bg-emerald-600 text-primary py-2 rounded font-bold text-sm">Datang</button>
+                <button onClick={() => handleStatus(detail, 'no_show')} className="bg-slate-700 hover:bg-slate-600 text-white py-2 rounded font-bold text-sm">Tidak Datang</button>
+                <button onClick={() => handleStatus(detail, 'cancelled')} className="bg-red-600 hover:bg-red-700 text-white py-2 rounded font-bold text-sm">Batal</button>
+              </div>
+            )}
+          </div>
+        </Modal>
+      )}
+    </div>
+  );
 };
 
-const ProductCard: React.FC<{ product: Product, onAdd: (p: Product, price: number, variant?: string) => void }> = ({ product, onAdd }) => {
-  const isOutOfStock = !product.isRecipe && product.stock <= 0;
-  
+interface ReservationModalProps {
+  storeId: string;
+  tables: Table[];
+  reservations: Reservation[];
+  operatorName: string;
+  defaultDate: number;
+  onClose: () => void;
+}
+
+const ReservationModal: React.FC<ReservationModalProps> = ({ storeId, tables, reservations, operatorName, defaultDate, onClose }) => {
+  const [tableId, setTableId] = useState(tables[0]?.id || '');
+  const [customerName, setCustomerName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [date, setDate] = useState(() => {
+    const d = new Date(defaultDate);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  });
+  const [time, setTime] = useState('19:00');
+  const [duration, setDuration] = useState(60);
+  const [deposit, setDeposit] = useState(0);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const startTime = new Date(`${date}T${time}`).getTime();
+  const conflicts = tableId && !isNaN(startTime) ? findTableConflicts(tableId, startTime, duration, reservations, tables) : [];
+  const canSave = !!tableId && !!customerName && duration > 0 && !isNaN(startTime) && conflicts.length === 0;
+
+  const handleSave = async () => {
+    if (!canSave || loading) return;
+    setLoading(true);
+    try {
+      const amount = Math.max(0, Number(deposit) || 0);
+      const reservationRef = doc(collection(db, `stores/${storeId}/reservations`));
+      const depositRef = doc(collection(db, `stores/${storeId}/transactions`));
+      const creditRef = doc(db, `stores/${storeId}/customer_credits`, customerCreditId(customerName));
+      // The booking, its DP transaction and the customer's credit are written together
+      await runTransaction(db, async (trx) => {
+        trx.set(reservationRef, {
+          tableId,
+          customerName,
+          phone,
+          startTime,
+          duration: Number(duration),
+          deposit: amount,
+          ...(amount > 0 ? { depositStatus: 'held', depositTransactionId: depositRef.id } : {}),
+          note,
+          status: 'booked',
+          createdBy: operatorName,
+          createdAt: Date.now()
+        });
+        if (amount > 0) {
+          const tableName = tables.find(t => t.id === tableId)?.name || tableId;
+          trx.set(depositRef, buildDepositTransaction({ customerName, startTime }, tableName, amount, creditRef.id, operatorName));
+          trx.set(creditRef, { customerName: customerName.trim(), balance: increment(amount), updatedAt: Date.now() }, { merge: true });
+        }
+      });
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan booking");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
-    <div className={`bg-secondary rounded-xl p-3 md:p-4 border border-slate-700 hover:border-accent transition flex flex-col justify-between group ${isOutOfStock ? 'opacity-50' : ''}`}>
-      <div>
-        <div className="flex justify-between items-start mb-2">
-          <div className="w-8 h-8 md:w-10 md:h-10 rounded-full bg-slate-800 flex items-center justify-center text-orange-400">
-             {product.isRecipe ? <ChefHat size={18} /> : <Package size={18} />}
+    <Modal title="Booking Baru" onClose={onClose}>
+      <div className="space-y-3">
+        <select className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white" value={tableId} onChange={(e) => setTableId(e.target.value)}>
+          {tables.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" placeholder="Nama Pelanggan" className="bg-slate-900 border border-slate-700 rounded p-2 text-white" value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+          <input type="tel" placeholder="No. HP" className="bg-slate-900 border border-slate-700 rounded p-2 text-white" value={phone} onChange={(e) => setPhone(e.target.value)} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="date" className="bg-slate-900 border border-slate-700 rounded p-2 text-white" value={date} onChange={(e) => setDate(e.target.value)} />
+          <input type="time" className="bg-slate-900 border border-slate-700 rounded p-2 text-white" value={time} onChange={(e) => setTime(e.target.value)} />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Durasi (Menit)</label>
+            <input type="number" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white" value={duration} onChange={(e) => setDuration(Number(e.target.value))} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">DP (Opsional)</label>
+            <input type="number" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white" value={deposit || ''} placeholder="0" onChange={(e) => setDeposit(Number(e.target.value))} />
           </div>
-          {!product.isRecipe && (
-             <span className={`text-[10px] px-2 py-1 rounded font-bold ${isOutOfStock ? 'bg-red-500/20 text-red-500' : 'bg-slate-800 text-slate-400'}`}>
-                {product.stock}
-             </span>
-          )}
         </div>
-        <h3 className="font-bold text-white leading-tight mb-1 text-sm md:text-base line-clamp-2">{product.name}</h3>
-        <p className="text-[10px] md:text-xs text-slate-400 mb-3">{product.category}</p>
+        <input type="text" placeholder="Catatan" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={note} onChange={(e) => setNote(e.target.value)} />
+
+        {conflicts.length > 0 && <ConflictWarning conflicts={conflicts} />}
+
+        <button 
+          onClick={handleSave}
+          disabled={!canSave || loading}
+          className="w-full bg-accent hover:bg-emerald-600 disabled:bg-slate-700 disabled:text-slate-500 text-primary font-bold py-3 rounded transition flex items-center justify-center gap-2"
+        >
+          <CalendarDays size={18} /> {loading ? 'Menyimpan...' : 'Simpan Booking'}
+        </button>
       </div>
-      
-      {product.isVariant && product.variants && product.variants.length > 0 ? (
-         <div className="space-y-1 md:space-y-2 mt-2">
-            {product.variants.map((v, idx) => (
-               <button 
-                 key={idx}
-                 onClick={() => onAdd(product, v.price, v.name)}
-                 className="w-full bg-slate-800 hover:bg-accent hover:text-primary text-slate-300 text-[10px] md:text-xs py-2 rounded flex justify-between px-2 transition active:scale-95"
-               >
-                 <span>{v.name}</span>
-                 <span className="font-bold">Rp {v.price.toLocaleString()}</span>
-               </button>
-            ))}
-         </div>
-      ) : (
-         <div className="flex items-center justify-between mt-2">
-            <span className="font-bold text-accent text-sm md:text-base">Rp {product.price.toLocaleString()}</span>
-            <button 
-               onClick={() => !isOutOfStock && onAdd(product, product.price)}
-               disabled={isOutOfStock}
-               className="bg-slate-700 hover:bg-accent hover:text-primary text-white p-2 rounded-lg transition active:scale-95"
-            >
-               <Plus size={16} />
-            </button>
-         </div>
-      )}
-    </div>
+    </Modal>
   );
 };
 
@@ -2451,64 +4687,524 @@ const TransactionHistoryScreen: React.FC<{ transactions: Transaction[] }> = ({ t
                         <td className="p-4 text-slate-300">{t.cashierName}</td>
                         <td className="p-4 text-slate-300 font-bold">{t.customerName || '-'}</td>
                         <td className="p-4">
-                           <span className={`text-[10px] px-2 py-1 rounded uppercase font-bold ${t.type === 'mixed' ? 'bg-purple-900/30 text-purple-400' : 'bg-slate-700 text-slate-400'}`}>
+                           <span className={`text-[10px] px-2 py-1 rounded uppercase font-bold ${t.type === 'mixed' ? 'bg-purple-900/30 text-purple-400' : t.type === 'refund' ? 'bg-red-900/30 text-red-400' : 'bg-slate-700 text-slate-400'}`}>
                               {t.type}
                            </span>
                         </td>
-                        <td className="p-4 text-right font-bold text-accent">Rp {t.total.toLocaleString()}</td>
+                        <td className="p-4 text-right">
+                           <span className="font-bold text-accent">Rp {t.total.toLocaleString()}</span>
+                           <span className="block text-[10px] text-slate-500">{getTransactionPayments(t).map(p => PAYMENT_METHOD_LABEL[p.method]).join(' + ')}</span>
+                        </td>
                      </tr>
                   ))}
                </tbody>
             </table>
             </div>
-         </div>
+         </div>
+
+         {selectedTrans && (
+            <Modal title="Detail Transaksi" onClose={() => setSelectedTrans(null)}>
+               <div className="space-y-4">
+                  <div className="text-center border-b border-slate-700 pb-4 mb-2 border-dashed">
+                     <h3 className="font-bold text-xl text-white">Zyra Billiard & Kopi</h3>
+                     <p className="text-xs text-slate-400">Jln Raya Depan karangtinggil - Pucuk</p>
+                     <p className="text-xs text-slate-500 mt-2">{new Date(selectedTrans.date).toLocaleString()}</p>
+                     <p className="text-xs text-slate-500">Kasir: {selectedTrans.cashierName}</p>
+                     <p className="text-xs text-slate-500">Pelanggan: {selectedTrans.customerName}</p>
+                     {selectedTrans.type === 'refund' && (
+                        <p className="text-xs text-red-400 mt-1">Refund ({selectedTrans.paymentMethod === 'credit' ? 'Saldo' : 'Tunai'}): {selectedTrans.reason}</p>
+                     )}
+                     {selectedTrans.type === 'deposit' && (
+                        <p className="text-xs text-emerald-400 mt-1">{selectedTrans.reason}</p>
+                     )}
+                  </div>
+                  
+                  <div className="space-y-2">
+                     {selectedTrans.items.map((item, idx) => item.itemType === 'discount' ? (
+                        <div key={idx} className="flex justify-between text-sm text-red-400">
+                           <span>{item.name}{item.promoCode ? ` (${item.promoCode})` : ''}</span>
+                           <span className="font-mono">{(item.quantity * item.price).toLocaleString()}</span>
+                        </div>
+                     ) : (
+                        <div key={idx} className="flex justify-between text-sm">
+                           <div>
+                              <span className="text-white">{item.name}</span>
+                              <div className="text-xs text-slate-500">{item.quantity} x {item.price.toLocaleString()}</div>
+                              {item.priceBreakdown && <PriceBreakdownLines segments={item.priceBreakdown} />}
+                           </div>
+                           <span className="text-white font-mono">{(item.quantity * item.price).toLocaleString()}</span>
+                        </div>
+                     ))}
+                  </div>
+
+                  <div className="border-t border-slate-700 pt-2 mt-2 border-dashed">
+                     <ChargeLines serviceCharge={selectedTrans.serviceCharge} tax={selectedTrans.tax} inclusive={selectedTrans.taxInclusive} rounding={selectedTrans.rounding} />
+                     <div className="flex justify-between font-bold text-lg text-white">
+                        <span>Total</span>
+                        <span>Rp {selectedTrans.total.toLocaleString()}</span>
+                     </div>
+                     {getTransactionPayments(selectedTrans).map((p, idx) => (
+                        <div key={idx} className="flex justify-between text-sm text-slate-400 mt-1">
+                           <span>{PAYMENT_METHOD_LABEL[p.method]}{p.reference && p.method === 'qris' ? ` (Ref ${p.reference})` : ''}</span>
+                           <span>Rp {(p.received ?? p.amount).toLocaleString()}</span>
+                        </div>
+                     ))}
+                     <div className="flex justify-between text-sm text-slate-400">
+                        <span>Kembali</span>
+                        <span>Rp {selectedTrans.change?.toLocaleString()}</span>
+                     </div>
+                     {selectedTrans.splits && (
+                        <div className="mt-2 pt-2 border-t border-slate-800 border-dashed space-y-1">
+                           <p className="text-xs text-slate-500">Bayar Terpisah ({SPLIT_MODE_LABEL[selectedTrans.splitMode || 'equal']})</p>
+                           {selectedTrans.splits.map((sp, idx) => (
+                              <div key={idx} className="flex justify-between text-xs text-slate-400">
+                                 <span>{sp.payerName}{sp.method ? ` - ${PAYMENT_METHOD_LABEL[sp.method]}` : ''}{sp.itemIndexes ? ` (${sp.itemIndexes.map(i => selectedTrans.items[i]?.name).filter(Boolean).join(', ')})` : ''}</span>
+                                 <span>Rp {sp.amount.toLocaleString()} / bayar {sp.amountReceived.toLocaleString()} / kembali {sp.change.toLocaleString()}</span>
+                              </div>
+                           ))}
+                        </div>
+                     )}
+                  </div>
+               </div>
+            </Modal>
+         )}
+      </div>
+   );
+};
+
+// --- Perangkat (Lamp Device Health) Screen ---
+interface DevicesScreenProps {
+  storeId: string;
+  tables: Table[];
+  lampDevices: LampDevice[];
+  operatorName: string;
+}
+
+const DevicesScreen: React.FC<DevicesScreenProps> = ({ storeId, tables, lampDevices, operatorName }) => {
+  const [health, setHealth] = useState<LampDeviceHealth[]>([]);
+  const [logs, setLogs] = useState<LampLogEntry[]>([]);
+  const [lease, setLease] = useState<LampControllerLease | null>(null);
+  const [localPing, setLocalPing] = useState<Record<string, { online: boolean; latencyMs?: number; error?: string; at: number }>>({});
+  const [logFilter, setLogFilter] = useState<'all' | 'failed'>('all');
+
+  useEffect(() => {
+    const unsubHealth = onSnapshot(lampHealthCollection(storeId), (snap) => {
+      setHealth(snap.docs.map(d => ({ id: d.id, ...d.data() } as LampDeviceHealth)));
+    }, (e) => console.error(e));
+    const unsubLogs = onSnapshot(query(lampLogCollection(storeId), orderBy('at', 'desc'), limit(100)), (snap) => {
+      setLogs(snap.docs.map(d => ({ id: d.id, ...d.data() } as LampLogEntry)));
+    }, (e) => console.error(e));
+    const unsubLease = onSnapshot(lampLeaseRef(storeId), (snap) => {
+      setLease(snap.exists() ? snap.data() as LampControllerLease : null);
+    }, (e) => console.error(e));
+    return () => {
+      unsubHealth();
+      unsubLogs();
+      unsubLease();
+    };
+  }, [storeId]);
+
+  // Ping from this browser (the controller pings every 30 s on its own)
+  const handlePing = async (device: LampDevice) => {
+    const result = await pingLampDevice(device);
+    setLocalPing(prev => ({ ...prev, [device.id]: { ...result, at: Date.now() } }));
+  };
+
+  // Channel tests go through the lamp controller, like every other lamp command
+  const handleTest = async (device: LampDevice, channel: number, action: LampAction) => {
+    try {
+      await enqueueLampCommand(storeId, `test-${device.id}-${channel}-${Date.now()}`, {
+        tableId: '', lampDeviceId: device.id, channel, action, createdBy: operatorName
+      });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengirim perintah tes");
+    }
+  };
+
+  const leaseAlive = lease && Date.now() - lease.heartbeatAt < 30 * 1000;
+  const visibleLogs = logFilter === 'failed' ? logs.filter(l => !l.ok) : logs;
+  const formatTime = (ts?: number) => ts ? new Date(ts).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '-';
+
+  return (
+    <div className="space-y-6">
+      <div className={`p-4 rounded-xl border ${leaseAlive ? 'bg-secondary border-slate-700' : 'bg-red-900/20 border-red-500/50'}`}>
+        <h3 className="font-bold text-white flex items-center gap-2"><Zap size={18} className="text-yellow-400"/> Pengendali Lampu</h3>
+        {leaseAlive ? (
+          <p className="text-sm text-slate-400 mt-1">{lease!.deviceLabel} ({lease!.deviceId}) - heartbeat {formatTime(lease!.heartbeatAt)}</p>
+        ) : (
+          <p className="text-sm text-red-300 mt-1">Tidak ada perangkat pengendali aktif. Buka aplikasi di tablet kasir agar lampu dapat dikendalikan.</p>
+        )}
+      </div>
+
+      {lampDevices.length === 0 && (
+        <p className="text-slate-500 italic">Belum ada perangkat lampu. Tambahkan lewat Billiard &gt; Atur Lampu.</p>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {lampDevices.map(device => {
+          const h = health.find(x => x.id === device.id);
+          const ping = localPing[device.id];
+          const mapped = tables.filter(t => t.lampDeviceId === device.id);
+          return (
+            <div key={device.id} className="bg-secondary p-4 rounded-xl border border-slate-700 space-y-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h4 className="font-bold text-white">{device.name}</h4>
+                  <p className="text-xs text-slate-500 font-mono">{device.baseUrl}</p>
+                  <p className={`text-[10px] ${device.secret ? 'text-emerald-400' : 'text-amber-400'}`}>
+                    {device.secret ? 'Perintah ditandatangani (HMAC)' : 'Perintah tanpa tanda tangan'}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 text-xs font-bold rounded uppercase ${!h ? 'bg-slate-700 text-slate-300' : h.online ? 'bg-emerald-600 text-white' : 'bg-red-600 text-white'}`}>
+                  {!h ? 'Belum dicek' : h.online ? 'Online' : 'Offline'}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2 text-xs">
+                <div className="bg-slate-800 p-2 rounded">
+                  <p className="text-slate-500">Terakhir Terlihat</p>
+                  <p className="text-white font-mono">{formatTime(h?.lastSeenAt)}</p>
+                </div>
+                <div className="bg-slate-800 p-2 rounded">
+                  <p className="text-slate-500">Latensi</p>
+                  <p className="text-white font-mono">{h?.online && h.latencyMs !== undefined ? `${h.latencyMs} ms` : '-'}</p>
+                </div>
+                <div className="bg-slate-800 p-2 rounded">
+                  <p className="text-slate-500">Dicek</p>
+                  <p className="text-white font-mono">{formatTime(h?.checkedAt)}</p>
+                </div>
+              </div>
+              {h && !h.online && h.error && <p className="text-xs text-red-400">{h.error}</p>}
+
+              <div className="flex items-center gap-2">
+                <button onClick={() => handlePing(device)} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded text-xs font-bold flex items-center gap-1">
+                  <Wifi size={14}/> Ping dari perangkat ini
+                </button>
+                {ping && (
+                  <span className={`text-xs ${ping.online ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {ping.online ? `Online, ${ping.latencyMs} ms` : `Gagal: ${ping.error}`} ({formatTime(ping.at)})
+                  </span>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs text-slate-400 font-bold">Tes Channel</p>
+                {Array.from({ length: device.channels }, (_, i) => i + 1).map(ch => {
+                  const owner = mapped.find(t => t.lampChannel === ch);
+                  return (
+                    <div key={ch} className="flex items-center justify-between gap-2 bg-slate-800 px-2 py-1 rounded">
+                      <span className="text-xs text-slate-300">CH {ch}{owner ? ` - ${owner.name}` : ''}</span>
+                      <div className="flex gap-1">
+                        {(['on', 'off', 'blink'] as LampAction[]).map(action => (
+                          <button 
+                            key={action}
+                            onClick={() => handleTest(device, ch, action)}
+                            className="text-[10px] uppercase bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 py-1 rounded"
+                          >
+                            {action}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-secondary p-4 rounded-xl border border-slate-700">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-bold text-white">Log Perintah Lampu</h3>
+          <select className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white" value={logFilter} onChange={(e) => setLogFilter(e.target.value as 'all' | 'failed')}>
+            <option value="all">Semua</option>
+            <option value="failed">Gagal saja</option>
+          </select>
+        </div>
+        {visibleLogs.length === 0 ? (
+          <p className="text-sm text-slate-500 italic">Belum ada log.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-500">
+                <tr>
+                  <th className="p-2">Waktu</th>
+                  <th className="p-2">Meja</th>
+                  <th className="p-2">Perangkat</th>
+                  <th className="p-2">Aksi</th>
+                  <th className="p-2">Hasil</th>
+                  <th className="p-2">Latensi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleLogs.map(l => (
+                  <tr key={l.id} className="border-t border-slate-800">
+                    <td className="p-2 text-slate-400 font-mono">{formatTime(l.at)}</td>
+                    <td className="p-2 text-white">{l.tableName || '-'}{l.actuatorName && <span className="text-slate-400"> · {l.actuatorName}</span>}</td>
+                    <td className="p-2 text-slate-300">{l.deviceName ? `${l.deviceName} CH ${l.channel}` : 'URL khusus'}</td>
+                    <td className="p-2 text-slate-300 uppercase">{l.action}{l.source === 'command' ? ' (manual)' : ''}</td>
+                    <td className={`p-2 font-bold ${l.ok ? 'text-emerald-400' : 'text-red-400'}`}>{l.ok ? 'OK' : l.error}</td>
+                    <td className="p-2 text-slate-400 font-mono">{l.latencyMs !== undefined ? `${l.latencyMs} ms` : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Promotions (Settings) ---
+const PromotionSettings: React.FC<{ storeId: string, promotions: Promotion[] }> = ({ storeId, promotions }) => {
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [audit, setAudit] = useState<PromotionAuditEntry[]>([]);
+
+  // Latest discounts given (the full log stays in promotion_audit)
+  useEffect(() => {
+    const unsub = onSnapshot(query(promotionAuditCollection(storeId), orderBy('date', 'desc'), limit(50)), (snap) => {
+      setAudit(snap.docs.map(d => ({ id: d.id, ...d.data() } as PromotionAuditEntry)));
+    }, (e) => console.error(e));
+    return () => unsub();
+  }, [storeId]);
+
+  const sorted = [...promotions].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name));
+
+  const handleToggle = async (promo: Promotion) => {
+    try {
+      await updateDoc(doc(promotionCollection(storeId), promo.id), { active: !promo.active });
+    } catch (e) {
+      console.error(e);
+      alert("Gagal mengubah promo");
+    }
+  };
+
+  const handleDelete = async (promo: Promotion) => {
+    if (!confirm(`Hapus promo ${promo.name}? Riwayat diskonnya tetap tersimpan.`)) return;
+    try {
+      await deleteDoc(doc(promotionCollection(storeId), promo.id));
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menghapus promo");
+    }
+  };
+
+  return (
+    <div className="bg-secondary p-6 rounded-xl border border-slate-700 h-fit lg:col-span-2">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold flex items-center gap-2 text-lg"><Percent size={20} className="text-pink-400" /> Promo & Diskon</h3>
+        <button onClick={() => setEditing({ ...NEW_PROMOTION, id: '' })} className="bg-accent hover:bg-emerald-600 text-primary font-bold px-3 py-2 rounded text-sm flex items-center gap-1">
+          <Plus size={16}/> Promo Baru
+        </button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">Belum ada promo.</p>
+      ) : (
+        <div className="space-y-2">
+          {sorted.map(promo => (
+            <div key={promo.id} className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-slate-800 p-3 rounded border border-slate-700 ${promo.active ? '' : 'opacity-50'}`}>
+              <div>
+                <p className="font-bold text-white text-sm">{promo.name} <span className="text-[10px] text-slate-400 font-normal">{PROMOTION_TYPE_LABEL[promo.type]}</span></p>
+                <p className="text-xs text-slate-400">{describePromotion(promo)}</p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => handleToggle(promo)} className="bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 py-1 rounded text-xs">{promo.active ? 'Nonaktifkan' : 'Aktifkan'}</button>
+                <button onClick={() => setEditing(promo)} className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 rounded text-xs">Edit</button>
+                <button onClick={() => handleDelete(promo)} className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 rounded text-xs">Hapus</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h4 className="font-bold text-sm text-slate-300 mt-6 mb-2 flex items-center gap-2"><History size={16}/> Riwayat Diskon (50 terakhir)</h4>
+      {audit.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">Belum ada diskon diberikan.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-slate-400 sticky top-0 bg-secondary">
+              <tr>
+                <th className="p-2">Waktu</th>
+                <th className="p-2">Promo</th>
+                <th className="p-2">Kasir</th>
+                <th className="p-2">Pelanggan</th>
+                <th className="p-2">Transaksi</th>
+                <th className="p-2 text-right">Diskon</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {audit.map(entry => (
+                <tr key={entry.id}>
+                  <td className="p-2 text-slate-400">{new Date(entry.date).toLocaleString()}</td>
+                  <td className="p-2 text-white">{entry.promotionName}{entry.code ? ` (${entry.code})` : ''}</td>
+                  <td className="p-2 text-slate-300">{entry.cashierName}</td>
+                  <td className="p-2 text-slate-300">{entry.customerName || '-'}</td>
+                  <td className="p-2 font-mono text-slate-500">#{entry.transactionId.slice(-4)}</td>
+                  <td className="p-2 text-right text-red-400">Rp {entry.amount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <ErrorBoundary>
+          <PromotionModal storeId={storeId} promotion={editing} onClose={() => setEditing(null)} />
+        </ErrorBoundary>
+      )}
+    </div>
+  );
+};
+
+const PromotionModal: React.FC<{ storeId: string, promotion: Promotion, onClose: () => void }> = ({ storeId, promotion, onClose }) => {
+  const [form, setForm] = useState<Promotion>(promotion);
+  const [loading, setLoading] = useState(false);
+  const set = (patch: Partial<Promotion>) => setForm(prev => ({ ...prev, ...patch }));
+  const isBuyGet = form.type === 'buy-x-get-y';
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return alert("Nama promo wajib diisi");
+    if (form.type === 'percent' && !(form.value > 0 && form.value <= 100)) return alert("Persen diskon harus 1-100");
+    if (form.type === 'fixed' && !(form.value > 0)) return alert("Nominal diskon harus lebih dari 0");
+    if (isBuyGet && !(form.buyQty >= 1 && form.getQty >= 1)) return alert("Jumlah beli dan gratis minimal 1");
+    setLoading(true);
+    try {
+      const { id, ...data } = form;
+      const payload = {
+        ...data,
+        name: form.name.trim(),
+        category: form.category?.trim() || null,
+        code: form.code ? normalizePromoCode(form.code) || null : null
+      };
+      if (id) await updateDoc(doc(promotionCollection(storeId), id), payload);
+      else await addDoc(promotionCollection(storeId), { ...payload, usedCount: 0, createdAt: Date.now() });
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Gagal menyimpan promo");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm";
+
+  return (
+    <Modal title={promotion.id ? `Edit Promo - ${promotion.name}` : 'Promo Baru'} onClose={onClose}>
+      <div className="space-y-3">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Nama Promo</label>
+          <input type="text" className={inputClass} value={form.name} placeholder="e.g. Happy Hour Kopi" onChange={e => set({ name: e.target.value })} />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(PROMOTION_TYPE_LABEL) as PromotionType[]).map(type => (
+            <button 
+              key={type}
+              onClick={() => set({ type })}
+              className={`py-2 rounded text-xs font-bold ${form.type === type ? 'bg-accent text-primary' : 'bg-slate-800 text-slate-300 border border-slate-600'}`}
+            >
+              {PROMOTION_TYPE_LABEL[type]}
+            </button>
+          ))}
+        </div>
+
+        {isBuyGet ? (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Beli (X)</label>
+              <input type="number" min={1} className={inputClass} value={form.buyQty} onChange={e => set({ buyQty: Number(e.target.value) })} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Gratis (Y, yang termurah)</label>
+              <input type="number" min={1} className={inputClass} value={form.getQty} onChange={e => set({ getQty: Number(e.target.value) })} />
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">{form.type === 'percent' ? 'Diskon (%)' : 'Potongan (Rp)'}</label>
+              <input type="number" min={0} className={inputClass} value={form.value || ''} onChange={e => set({ value: Number(e.target.value) })} />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1">Berlaku Untuk</label>
+              <select className={inputClass} value={form.scope} onChange={e => set({ scope: e.target.value as Promotion['scope'] })}>
+                <option value="cart">Total Belanja</option>
+                <option value="line">Setiap Item</option>
+              </select>
+            </div>
+          </div>
+        )}
 
-         {selectedTrans && (
-            <Modal title="Detail Transaksi" onClose={() => setSelectedTrans(null)}>
-               <div className="space-y-4">
-                  <div className="text-center border-b border-slate-700 pb-4 mb-2 border-dashed">
-                     <h3 className="font-bold text-xl text-white">Zyra Billiard & Kopi</h3>
-                     <p className="text-xs text-slate-400">Jln Raya Depan karangtinggil - Pucuk</p>
-                     <p className="text-xs text-slate-500 mt-2">{new Date(selectedTrans.date).toLocaleString()}</p>
-                     <p className="text-xs text-slate-500">Kasir: {selectedTrans.cashierName}</p>
-                     <p className="text-xs text-slate-500">Pelanggan: {selectedTrans.customerName}</p>
-                  </div>
-                  
-                  <div className="space-y-2">
-                     {selectedTrans.items.map((item, idx) => (
-                        <div key={idx} className="flex justify-between text-sm">
-                           <div>
-                              <span className="text-white">{item.name}</span>
-                              <div className="text-xs text-slate-500">{item.quantity} x {item.price.toLocaleString()}</div>
-                           </div>
-                           <span className="text-white font-mono">{(item.quantity * item.price).toLocaleString()}</span>
-                        </div>
-                     ))}
-                  </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Kategori / Tipe Meja (kosong = semua)</label>
+            <input type="text" className={inputClass} value={form.category || ''} placeholder="e.g. Minuman, VIP" onChange={e => set({ category: e.target.value || null })} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Minimum Belanja (Rp)</label>
+            <input type="number" min={0} className={inputClass} value={form.minSubtotal || ''} placeholder="0" onChange={e => set({ minSubtotal: Number(e.target.value) })} />
+          </div>
+        </div>
 
-                  <div className="border-t border-slate-700 pt-2 mt-2 border-dashed">
-                     <div className="flex justify-between font-bold text-lg text-white">
-                        <span>Total</span>
-                        <span>Rp {selectedTrans.total.toLocaleString()}</span>
-                     </div>
-                     <div className="flex justify-between text-sm text-slate-400 mt-1">
-                        <span>Bayar</span>
-                        <span>Rp {selectedTrans.amountReceived?.toLocaleString()}</span>
-                     </div>
-                     <div className="flex justify-between text-sm text-slate-400">
-                        <span>Kembali</span>
-                        <span>Rp {selectedTrans.change?.toLocaleString()}</span>
-                     </div>
-                  </div>
-               </div>
-            </Modal>
-         )}
+        <div className="bg-slate-800 p-3 rounded border border-slate-700 space-y-2">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={!!form.happyHour} onChange={e => set({ happyHour: e.target.checked ? { days: [0, 1, 2, 3, 4, 5, 6], start: '14:00', end: '17:00' } : null })} /> Happy Hour (jam tertentu)
+          </label>
+          {form.happyHour && (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button 
+                    key={day}
+                    onClick={() => set({ happyHour: { ...form.happyHour!, days: form.happyHour!.days.includes(day) ? form.happyHour!.days.filter(d => d !== day) : [...form.happyHour!.days, day].sort() } })}
+                    className={`px-2 py-1 rounded text-xs font-bold ${form.happyHour!.days.includes(day) ? 'bg-accent text-primary' : 'bg-slate-900 text-slate-400 border border-slate-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="time" className={inputClass} value={form.happyHour.start} onChange={e => set({ happyHour: { ...form.happyHour!, start: e.target.value } })} />
+                <input type="time" className={inputClass} value={form.happyHour.end} onChange={e => set({ happyHour: { ...form.happyHour!, end: e.target.value } })} />
+              </div>
+              <p className="text-[10px] text-slate-500">Jam selesai sebelum jam mulai berarti lewat tengah malam.</p>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Kode Promo (kosong = otomatis)</label>
+            <input type="text" className={`${inputClass} uppercase`} value={form.code || ''} onChange={e => set({ code: e.target.value || null })} />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Batas Pemakaian (0 = tanpa batas)</label>
+            <input type="number" min={0} className={inputClass} value={form.usageLimit || ''} placeholder="0" onChange={e => set({ usageLimit: Number(e.target.value) })} />
+          </div>
+        </div>
+        {promotion.id && <p className="text-[10px] text-slate-500">Sudah dipakai {promotion.usedCount || 0} kali.</p>}
+
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={form.active} onChange={e => set({ active: e.target.checked })} /> Aktif
+        </label>
+
+        <button onClick={handleSave} disabled={loading} className="w-full bg-accent hover:bg-emerald-600 disabled:bg-slate-700 text-primary font-bold py-3 rounded flex items-center justify-center gap-2">
+          {loading ? 'Menyimpan...' : <><Save size={18}/> Simpan Promo</>}
+        </button>
       </div>
-   );
+    </Modal>
+  );
 };
 
 // --- Settings Screen (Admin Only) ---
-const SettingsScreen: React.FC<{ storeId: string, users: User[], operators: Operator[] }> = ({ storeId, users, operators }) => {
+const SettingsScreen: React.FC<{ storeId: string, users: User[], operators: Operator[], promotions: Promotion[] }> = ({ storeId, users, operators, promotions }) => {
   const [newOpName, setNewOpName] = useState('');
   const [opToDelete, setOpToDelete] = useState<Operator | null>(null);
 
@@ -2529,6 +5225,15 @@ const SettingsScreen: React.FC<{ storeId: string, users: User[], operators: Oper
      fetchSettings();
   }, [storeId]);
 
+  const billing: BillingRules = { ...DEFAULT_BILLING_RULES, ...settings.billing };
+  const setBilling = (patch: Partial<BillingRules>) => setSettings(prev => ({ ...prev, billing: { ...billing, ...patch } }));
+  const warnings: ExpiryWarningSettings = { ...DEFAULT_EXPIRY_WARNINGS, ...settings.expiryWarnings };
+  const setWarnings = (patch: Partial<ExpiryWarningSettings>) => setSettings(prev => ({ ...prev, expiryWarnings: { ...warnings, ...patch } }));
+  const taxSettings: TaxSettings = { ...DEFAULT_TAX_SETTINGS, ...settings.tax };
+  const setTax = (patch: Partial<TaxSettings>) => setSettings(prev => ({ ...prev, tax: { ...taxSettings, ...patch } }));
+  const serviceIntervals = { ...DEFAULT_MAINTENANCE_INTERVALS, ...settings.maintenanceIntervals };
+  const setServiceInterval = (type: MaintenanceType, hours: number) => setSettings(prev => ({ ...prev, maintenanceIntervals: { ...serviceIntervals, [type]: hours } }));
+
   const handleSaveSettings = async () => {
      setLoadingSettings(true);
      try {
@@ -2640,6 +5345,143 @@ const SettingsScreen: React.FC<{ storeId: string, users: User[], operators: Oper
                </div>
            </div>
 
+           {/* Table Billing Rules */}
+           <div className="mt-6 pt-4 border-t border-slate-700">
+              <h4 className="font-bold text-sm text-slate-300 mb-3 flex items-center gap-2"><Target size={16} className="text-accent" /> Aturan Tagihan Meja</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Blok Tagihan</label>
+                    <select className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={billing.blockMinutes} onChange={e => setBilling({ blockMinutes: Number(e.target.value) })}>
+                       <option value={1}>Per Menit</option>
+                       <option value={15}>Per 15 Menit</option>
+                       <option value={30}>Per 30 Menit</option>
+                       <option value={60}>Per Jam</option>
+                    </select>
+                 </div>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Tagihan Minimum / Sesi (Rp)</label>
+                    <input type="number" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={billing.minimumCharge || ''} placeholder="0" onChange={e => setBilling({ minimumCharge: Number(e.target.value) })} />
+                 </div>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Toleransi Sebelum Blok Baru (Menit)</label>
+                    <input type="number" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={billing.graceMinutes || ''} placeholder="0" onChange={e => setBilling({ graceMinutes: Number(e.target.value) })} />
+                 </div>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">Durasi sewa dibulatkan ke atas per blok. Toleransi hanya berlaku untuk tagihan Main Bebas (waktu berjalan).</p>
+           </div>
+
+           {/* Service Charge & PPN */}
+           <div className="mt-6 pt-4 border-t border-slate-700">
+              <h4 className="font-bold text-sm text-slate-300 mb-3 flex items-center gap-2"><Receipt size={16} className="text-amber-400" /> Service & Pajak (PPN)</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 items-end">
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Service Charge (%)</label>
+                    <input type="number" min={0} step="0.5" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={taxSettings.serviceRate || ''} placeholder="0" onChange={e => setTax({ serviceRate: Math.max(0, Number(e.target.value)) })} />
+                 </div>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">PPN (%)</label>
+                    <input type="number" min={0} step="0.5" className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={taxSettings.taxRate || ''} placeholder="0" onChange={e => setTax({ taxRate: Math.max(0, Number(e.target.value)) })} />
+                 </div>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Pembulatan Total</label>
+                    <select className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={taxSettings.roundTo} onChange={e => setTax({ roundTo: Number(e.target.value) })}>
+                       <option value={1}>Tidak Dibulatkan</option>
+                       <option value={100}>Rp 100</option>
+                       <option value={500}>Rp 500</option>
+                       <option value={1000}>Rp 1.000</option>
+                    </select>
+                 </div>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Arah Pembulatan</label>
+                    <select className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" value={taxSettings.roundingMode} disabled={taxSettings.roundTo <= 1} onChange={e => setTax({ roundingMode: e.target.value as RoundingMode })}>
+                       {(Object.keys(ROUNDING_MODE_LABEL) as RoundingMode[]).map(mode => <option key={mode} value={mode}>{ROUNDING_MODE_LABEL[mode]}</option>)}
+                    </select>
+                 </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end mt-3">
+                 <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input type="checkbox" checked={taxSettings.inclusive} onChange={e => setTax({ inclusive: e.target.checked })} /> Harga Sudah Termasuk Service & PPN
+                 </label>
+                 <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input type="checkbox" checked={taxSettings.serviceTaxable} onChange={e => setTax({ serviceTaxable: e.target.checked })} /> PPN Dihitung dari Harga + Service
+                 </label>
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Kategori Bebas Service & PPN (pisahkan koma)</label>
+                    <input 
+                      key={taxSettings.exemptCategories.join(',')}
+                      type="text" 
+                      className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" 
+                      defaultValue={taxSettings.exemptCategories.join(', ')} 
+                      placeholder={`${TABLE_RENTAL_CATEGORY}, Rokok`} 
+                      onBlur={e => setTax({ exemptCategories: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })} 
+                    />
+                 </div>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">Isi 0 untuk mematikan. "{TABLE_RENTAL_CATEGORY}" membebaskan semua sewa meja; nama kategori produk atau tipe meja juga bisa dipakai. Diskon promo mengurangi dasar pengenaan lebih dulu.</p>
+           </div>
+
+           {/* Pre-expiry Warnings */}
+           <div className="mt-6 pt-4 border-t border-slate-700">
+              <h4 className="font-bold text-sm text-slate-300 mb-3 flex items-center gap-2"><BellRing size={16} className="text-yellow-400" /> Peringatan Waktu Habis</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+                 <div>
+                    <label className="block text-xs text-slate-400 mb-1">Menit Sebelum Habis (pisahkan koma)</label>
+                    <input 
+                      key={warnings.minutesBefore.join(',')}
+                      type="text" 
+                      className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" 
+                      defaultValue={warnings.minutesBefore.join(', ')} 
+                      placeholder="10, 5" 
+                      onBlur={e => setWarnings({ minutesBefore: e.target.value.split(',').map(v => Number(v.trim())).filter(v => v > 0) })} 
+                    />
+                 </div>
+                 <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input type="checkbox" checked={warnings.sound} onChange={e => setWarnings({ sound: e.target.checked })} /> Bunyi Notifikasi
+                 </label>
+                 <label className="flex items-center gap-2 text-sm text-slate-300">
+                    <input type="checkbox" checked={warnings.blink} onChange={e => setWarnings({ blink: e.target.checked })} /> Kedipkan Lampu Meja
+                 </label>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">Kosongkan untuk mematikan peringatan. Berlaku untuk sewa prabayar (bukan Main Bebas).</p>
+           </div>
+
+           {/* Maintenance Reminders */}
+           <div className="mt-6 pt-4 border-t border-slate-700">
+              <h4 className="font-bold text-sm text-slate-300 mb-3 flex items-center gap-2"><Wrench size={16} className="text-amber-400" /> Pengingat Perawatan (Jam Main)</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+                 {(Object.keys(MAINTENANCE_TYPE_LABEL) as MaintenanceType[]).map(type => (
+                    <div key={type}>
+                       <label className="block text-xs text-slate-400 mb-1">{MAINTENANCE_TYPE_LABEL[type]}</label>
+                       <input 
+                         type="number" 
+                         min={0}
+                         className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-sm" 
+                         value={serviceIntervals[type]} 
+                         onChange={e => setServiceInterval(type, Math.max(0, Number(e.target.value)))} 
+                       />
+                    </div>
+                 ))}
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">Jam main per meja sejak servis terakhir jenis tersebut. Isi 0 untuk mematikan pengingat.</p>
+           </div>
+
+           {/* QRIS */}
+           <div className="mt-6 pt-4 border-t border-slate-700">
+              <h4 className="font-bold text-sm text-slate-300 mb-3 flex items-center gap-2"><QrCode size={16} className="text-sky-400" /> Pembayaran QRIS</h4>
+              <label className="block text-xs text-slate-400 mb-1">Payload QRIS Statis (isi QR merchant, dipindai lalu disalin)</label>
+              <textarea 
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white text-xs font-mono break-all" 
+                rows={3} 
+                placeholder="000201010211..." 
+                value={settings.qrisPayload || ''} 
+                onChange={e => setSettings({...settings, qrisPayload: e.target.value.trim()})} 
+              />
+              {settings.qrisPayload && (validateQris(settings.qrisPayload)
+                 ? <p className="text-xs text-red-400 mt-1">{validateQris(settings.qrisPayload)}</p>
+                 : <p className="text-xs text-emerald-400 mt-1">Valid: {getQrisMerchantName(settings.qrisPayload)}</p>)}
+              <p className="text-[10px] text-slate-500 mt-2">Saat checkout, nominal transaksi dimasukkan ke QR (QRIS dinamis) sehingga pelanggan tidak perlu mengetik jumlah. Kosongkan untuk menyembunyikan pilihan QRIS.</p>
+           </div>
+
            <div className="mt-6 flex justify-end">
               <button onClick={handleSaveSettings} disabled={loadingSettings} className="bg-accent hover:bg-emerald-600 text-primary font-bold px-6 py-2 rounded flex items-center gap-2 w-full sm:w-auto justify-center">
                  {loadingSettings ? 'Menyimpan...' : <><Save size={18}/> Simpan Pengaturan</>}
@@ -2647,6 +5489,8 @@ const SettingsScreen: React.FC<{ storeId: string, users: User[], operators: Oper
            </div>
         </div>
 
+        <PromotionSettings storeId={storeId} promotions={promotions} />
+
         {/* 2. User Accounts */}
         <div className="bg-secondary p-6 rounded-xl border border-slate-700 h-fit">
           <h3 className="font-bold mb-4 flex items-center gap-2"><Users size={20} /> Akun Login</h3>
@@ -2763,128 +5607,425 @@ interface CheckoutModalProps {
   ingredients: Ingredient[];
   tables: Table[];
   activeOperator?: string;
+  qrisPayload?: string;
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-const CheckoutModal: React.FC<CheckoutModalProps> = ({ storeId, cart, currentUser, products, ingredients, tables, activeOperator, onClose, onSuccess }) => {
+const CheckoutModal: React.FC<CheckoutModalProps> = ({ storeId, cart, currentUser, products, ingredients, tables, activeOperator, qrisPayload, promotions, taxSettings, onClose, onSuccess }) => {
   const [loading, setLoading] = useState(false);
-  const [customerName, setCustomerName] = useState('');
+  // Party seated from the waitlist brings its name along
+  const [customerName, setCustomerName] = useState(() => cart.find(i => i.partyName)?.partyName || '');
   const [cashReceived, setCashReceived] = useState<number>(0);
+  // Split bill: every payer pays their own share with their own tender (cash gives change)
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal');
+  const emptyPayer = { name: '', amount: 0, received: 0, method: 'cash' as PaymentMethod, reference: '' };
+  const [payers, setPayers] = useState([emptyPayer, emptyPayer]);
+  const [payerBalances, setPayerBalances] = useState<Record<string, number>>({});
+  const [itemPayer, setItemPayer] = useState<number[]>(() => cart.map(() => 0));
+  // Tenders next to cash. QRIS: a dynamic QR with that amount is shown, the cashier confirms
+  // when it is paid. Credit: the customer's balance (customer_credits, by name).
+  const [qrisAmount, setQrisAmount] = useState(0);
+  const [qrisRef, setQrisRef] = useState('');
+  const [creditAmount, setCreditAmount] = useState(0);
+  const [creditBalance, setCreditBalance] = useState(0);
+  const [qrisCode, setQrisCode] = useState<string | null>(null);
+  // Split payer the QR on screen is for (null: the single bill)
+  const [qrisPayer, setQrisPayer] = useState<number | null>(null);
+  const [qrisImage, setQrisImage] = useState('');
+  const qrisReady = !!qrisPayload && !validateQris(qrisPayload);
   
-  const total = cart.reduce((acc, item) => acc + (item.price * item.quantity), 0);
-  const change = Math.max(0, cashReceived - total);
-  const canPay = customerName.length > 0 && cashReceived >= total;
+  // Product category or table type, for promotions and tax exemptions
+  const categoryOf = (item: CartItem) =>
+    item.itemType === 'product'
+      ? products.find(p => p.id === item.productId)?.category
+      : tables.find(t => t.id === item.tableId)?.category;
+
+  // Promotions become discount lines (negative price) after the cart items
+  const [promoCode, setPromoCode] = useState('');
+  const discountLines = useMemo(() => applyPromotions(cart, promotions, categoryOf, promoCode), [cart, promotions, products, tables, promoCode]);
+  const billItems = [...cart, ...discountLines];
+  // By-item split assigns the cart lines only; the discount follows each payer's share
+  const billPayer = cart.map((_, idx) => itemPayer[idx] ?? 0);
+  const codeInvalid = !!promoCode.trim() && !discountLines.some(l => l.promoCode === normalizePromoCode(promoCode));
+
+  // Service charge, PPN and rounding on top of the lines (inclusive prices: rounding only)
+  const charges = computeCharges(billItems, taxSettings, categoryOf);
+  const { subtotal, total } = charges;
+  const discountTotal = charges.discount;
+  const extraCharges = total - (subtotal - discountTotal);
+  const shares = getSplitShares(splitMode, billItems, payers.length, billPayer, payers.map(p => p.amount), extraCharges);
+  const splitError = isSplit ? validateSplit(splitMode, billItems, payers.length, billPayer, shares, extraCharges) : null;
+  const payerTenders = payers.map((p, idx) => getPayerTenders(p.method, shares[idx], p.received));
+  const payerErrors = payers.map((p, idx) => {
+    const t = payerTenders[idx];
+    return validateTenders(shares[idx], t.cash, t.qris, t.credit, payerBalances[customerCreditId(p.name)] || 0);
+  });
+  const splitReceived = payerTenders.reduce((acc, t) => acc + t.cash + t.qris + t.credit, 0);
+  const tenders = settleTenders(total, cashReceived, qrisAmount, creditAmount);
+  const tenderError = isSplit ? null : validateTenders(total, cashReceived, qrisAmount, creditAmount, creditBalance);
+  const change = isSplit
+    ? payerTenders.reduce((acc, t, idx) => acc + settleTenders(shares[idx], t.cash, t.qris, t.credit).change, 0)
+    : tenders.change;
+  const canPay = customerName.length > 0 && (isSplit
+    ? !splitError && payerErrors.every(e => !e)
+    : !tenderError && (qrisAmount === 0 || qrisReady));
+  const showQrisFirst = !isSplit && qrisAmount > 0;
+
+  useEffect(() => {
+    const name = customerName.trim();
+    if (!name) {
+      setCreditBalance(0);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getDoc(doc(db, `stores/${storeId}/customer_credits`, customerCreditId(name)))
+        .then(snap => { if (!cancelled) setCreditBalance(snap.exists() ? (snap.data() as CustomerCredit).balance || 0 : 0); })
+        .catch(e => console.warn('Credit balance lookup failed', e));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [storeId, customerName]);
+
+  // Balances of the split payers paying with credit, by name like the single bill
+  const creditPayerKey = payers.filter(p => p.method === 'credit' && p.name.trim()).map(p => customerCreditId(p.name)).join(',');
+  useEffect(() => {
+    if (!creditPayerKey) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      Promise.all(creditPayerKey.split(',').map(id =>
+        getDoc(doc(db, `stores/${storeId}/customer_credits`, id))
+          .then(snap => [id, snap.exists() ? (snap.data() as CustomerCredit).balance || 0 : 0] as const)
+      ))
+        .then(entries => { if (!cancelled) setPayerBalances(Object.fromEntries(entries)); })
+        .catch(e => console.warn('Credit balance lookup failed', e));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [storeId, creditPayerKey]);
+
+  useEffect(() => {
+    if (!qrisCode) {
+      setQrisImage('');
+      return;
+    }
+    QRCode.toDataURL(qrisCode, { errorCorrectionLevel: 'M', margin: 2, width: 512 })
+      .then(setQrisImage)
+      .catch(e => {
+        console.error(e);
+        alert("Gagal membuat gambar QRIS");
+        setQrisCode(null);
+      });
+  }, [qrisCode]);
+
+  const handleShowQris = (payerIdx: number | null = null) => {
+    try {
+      setQrisCode(buildDynamicQris(qrisPayload || '', payerIdx === null ? qrisAmount : shares[payerIdx]));
+      setQrisPayer(payerIdx);
+    } catch (e: any) {
+      alert(`QRIS tidak bisa dibuat: ${e.message}`);
+    }
+  };
+
+  const updatePayer = (idx: number, patch: Partial<typeof emptyPayer>) => {
+    setPayers(prev => prev.map((p, i) => i === idx ? { ...p, ...patch } : p));
+  };
+
+  // A split payer's QRIS is confirmed on its own; the sale is processed once everyone has paid
+  const handleConfirmPayerQris = () => {
+    if (qrisPayer === null) return;
+    updatePayer(qrisPayer, { received: shares[qrisPayer] });
+    setQrisCode(null);
+  };
 
   const handleProcessPayment = async () => {
     if (loading) return;
     setLoading(true);
 
     try {
-      const batchPromises = [];
       const transactionRef = doc(collection(db, `stores/${storeId}/transactions`));
+      const operatorName = activeOperator || currentUser.name;
       
-      const safeCart = cart.map(item => ({
+      const safeCart = billItems.map(item => ({
         ...item,
         productId: item.productId || null,
         tableId: item.tableId || null,
         variantType: item.variantType || null,
         isRecipe: item.isRecipe || false,
-        duration: item.duration || 0
+        duration: item.duration || 0,
+        openPlay: item.openPlay || false,
+        settlePlay: item.settlePlay || false,
+        priceBreakdown: item.priceBreakdown || null,
+        waitlistEntryId: item.waitlistEntryId || null,
+        partyName: item.partyName || null,
+        tabTableId: item.tabTableId || null,
+        promotionId: item.promotionId || null,
+        promoCode: item.promoCode || null
       }));
 
-      // 1. Save Transaction
-      batchPromises.push(setDoc(transactionRef, {
-        date: Date.now(),
-        type: cart.some(i => i.itemType === 'table') && cart.some(i => i.itemType === 'product') ? 'mixed' : cart[0].itemType === 'table' ? 'rental' : 'sale',
-        items: safeCart,
-        total: total,
-        cashierName: activeOperator || currentUser.name,
-        customerName: customerName,
-        amountReceived: cashReceived,
-        change: change,
-        paymentMethod: 'cash'
-      }));
+      const splits: SplitPayment[] | null = isSplit ? payers.map((p, idx) => {
+        const t = payerTenders[idx];
+        return {
+          payerName: p.name.trim() || `Pembayar ${idx + 1}`,
+          amount: shares[idx],
+          amountReceived: t.cash + t.qris + t.credit,
+          change: settleTenders(shares[idx], t.cash, t.qris, t.credit).change,
+          method: p.method,
+          reference: p.method === 'qris' ? p.reference.trim() || null : p.method === 'credit' ? customerCreditId(p.name) : null,
+          ...(splitMode === 'items' ? { itemIndexes: cart.map((_, i) => i).filter(i => billPayer[i] === idx) } : {})
+        };
+      }) : null;
+
+      const payments: TenderPayment[] = isSplit
+        ? payers.flatMap((p, idx) => {
+            const t = payerTenders[idx];
+            return buildPayments(shares[idx], t.cash, t.qris, t.credit, { qris: p.reference.trim(), credit: customerCreditId(p.name) });
+          })
+        : buildPayments(total, cashReceived, qrisAmount, creditAmount, { qris: qrisRef.trim(), credit: customerCreditId(customerName) });
+
+      // Credit taken per customer_credits doc (split payers each use their own balance)
+      const creditUse = new Map<string, { name: string; amount: number }>();
+      const addCreditUse = (name: string, amount: number) => {
+        if (amount <= 0) return;
+        const id = customerCreditId(name);
+        creditUse.set(id, { name: name.trim(), amount: (creditUse.get(id)?.amount || 0) + amount });
+      };
+      if (isSplit) payers.forEach((p, idx) => addCreditUse(p.name, payerTenders[idx].credit));
+      else addCreditUse(customerName, creditAmount);
+      const creditRef = (id: string) => doc(db, `stores/${storeId}/customer_credits`, id);
+
+      const productRef = (id: string) => doc(db, `stores/${storeId}/products`, id);
+      const ingredientRef = (id: string) => doc(db, `stores/${storeId}/ingredients`, id);
+      const tableRef = (id: string) => doc(db, `stores/${storeId}/tables`, id);
+
+      // All-or-nothing: stock and tables are re-read in the transaction, so two devices
+      // selling the last item (or the same table) cannot both succeed
+      await runTransaction(db, async (trx) => {
+        // 1. Reads (Firestore requires every read before the first write)
+        const productIds = Array.from(new Set<string>(cart.filter(i => i.itemType === 'product' && i.productId).map(i => i.productId)));
+        const latestProducts = new Map<string, Product>();
+        for (const id of productIds) {
+          const snap = await trx.get(productRef(id));
+          if (!snap.exists()) throw new Error(`${cart.find(i => i.productId === id)?.name || 'Produk'} sudah dihapus dari daftar produk`);
+          latestProducts.set(id, { id, ...snap.data() } as Product);
+        }
 
-      // 2. Process Items
-      for (const item of cart) {
-        // A. Handle Products
-        if (item.itemType === 'product' && item.productId) {
-           const product = products.find(p => p.id === item.productId);
-           if (!product) continue;
-
-           if (product.isRecipe && product.recipe) {
-              // Deduct ingredients
-              for (const r of product.recipe) {
-                 const ing = ingredients.find(i => i.id === r.ingredientId);
-                 if (ing) {
-                    const newStock = Math.max(0, ing.stock - (r.amount * item.quantity));
-                    batchPromises.push(updateDoc(doc(db, `stores/${storeId}/ingredients`, ing.id), { stock: newStock }));
-                 }
-              }
-           } else {
-              // Deduct direct stock
-              const newStock = Math.max(0, product.stock - item.quantity);
-              batchPromises.push(updateDoc(doc(db, `stores/${storeId}/products`, item.productId), { stock: newStock }));
-           }
+        // Quantity needed per product (direct stock) and per ingredient (recipes), over the whole cart
+        const productNeed = new Map<string, number>();
+        const ingredientNeed = new Map<string, number>();
+        for (const item of cart) {
+          if (item.itemType !== 'product' || !item.productId) continue;
+          const product = latestProducts.get(item.productId)!;
+          if (product.isRecipe && product.recipe) {
+            for (const r of product.recipe) {
+              ingredientNeed.set(r.ingredientId, (ingredientNeed.get(r.ingredientId) || 0) + r.amount * item.quantity);
+            }
+          } else if (!product.isRecipe) {
+            productNeed.set(product.id, (productNeed.get(product.id) || 0) + item.quantity);
+          }
         }
-        
-        // B. Handle Tables
-        if (item.itemType === 'table' && item.tableId) {
-           const table = tables.find(t => t.id === item.tableId);
-           if (table) {
-              const isTopup = table.status === 'occupied';
-              const durationMs = (item.duration || 60) * 60 * 1000;
-              
-              let newData;
-              if (isTopup) {
-                 newData = {
-                    endTime: (table.endTime || Date.now()) + durationMs,
-                    duration: (table.duration || 0) + (item.duration || 0)
-                 };
-              } else {
-                 newData = {
-                    status: 'occupied',
-                    startTime: Date.now(),
-                    duration: item.duration || 60,
-                    endTime: Date.now() + durationMs,
-                    currentCustomer: customerName
-                 };
-              }
-              batchPromises.push(updateDoc(doc(db, `stores/${storeId}/tables`, item.tableId), newData));
-           }
+
+        // A deleted ingredient is skipped, as before
+        const latestIngredients = new Map<string, Ingredient>();
+        for (const id of ingredientNeed.keys()) {
+          const snap = await trx.get(ingredientRef(id));
+          if (snap.exists()) latestIngredients.set(id, { id, ...snap.data() } as Ingredient);
         }
-      }
 
-      await Promise.all(batchPromises);
+        const latestTables = new Map<string, Table>();
+        for (const item of cart) {
+          if (item.itemType !== 'table' || !item.tableId) continue;
+          const snap = await trx.get(tableRef(item.tableId));
+          if (!snap.exists()) throw new Error(`${item.name}: meja sudah dihapus`);
+          latestTables.set(item.tableId, { id: item.tableId, ...snap.data() } as Table);
+        }
 
-      // After DB updates, command device to turn ON lamps for occupied tables (with duration)
-      try {
-        const tableIds = Array.from(new Set(cart.filter(i => i.itemType === 'table' && i.tableId).map(i => (i as CartItem).tableId as string)));
-        const promises = tableIds.map(async (tid) => {
-          try {
-            const tableDoc = await getDoc(doc(db, `stores/${storeId}/tables`, tid));
-            if (!tableDoc.exists()) return;
-            const tdata = tableDoc.data() as Table;
-            if (tdata.status === 'occupied') {
-              const num = deriveTableNumber(tdata.name, tables.findIndex(x => x.id === tid));
-              const dur = tdata.endTime ? Math.max(0, Math.ceil((tdata.endTime - Date.now()) / 1000)) : undefined;
-              return controlLamp(num, 'on', dur);
+        // Promotions are re-read so an exhausted code or a promo switched off is not given
+        const latestPromotions = new Map<string, Promotion>();
+        for (const line of discountLines) {
+          const snap = await trx.get(doc(promotionCollection(storeId), line.promotionId!));
+          if (!snap.exists()) throw new Error(`${line.name}: promo sudah dihapus`);
+          latestPromotions.set(snap.id, { id: snap.id, ...snap.data() } as Promotion);
+        }
+
+        const creditLeft = new Map<string, number>();
+        for (const id of creditUse.keys()) {
+          const snap = await trx.get(creditRef(id));
+          creditLeft.set(id, snap.exists() ? (snap.data() as CustomerCredit).balance || 0 : 0);
+        }
+
+        // 2. Checks
+        for (const promo of latestPromotions.values()) {
+          const blocker = getPromotionBlocker(promo, Date.now(), promoCode);
+          if (blocker) throw new Error(`Promo ${promo.name}: ${blocker}. Ulangi checkout.`);
+        }
+        for (const [id, use] of creditUse) {
+          const left = creditLeft.get(id)!;
+          if (use.amount > left) throw new Error(`Saldo ${use.name} tidak cukup (sisa Rp ${left.toLocaleString()})`);
+        }
+        for (const [id, need] of productNeed) {
+          const product = latestProducts.get(id)!;
+          if (product.stock < need) throw new Error(`Stok ${product.name} tidak cukup (sisa ${product.stock}, dibutuhkan ${need})`);
+        }
+        for (const [id, need] of ingredientNeed) {
+          const ing = latestIngredients.get(id);
+          if (ing && ing.stock < need) throw new Error(`Stok bahan ${ing.name} tidak cukup (sisa ${ing.stock} ${ing.unit}, dibutuhkan ${need} ${ing.unit})`);
+        }
+        for (const item of cart) {
+          if (item.itemType !== 'table' || !item.tableId) continue;
+          const latest = latestTables.get(item.tableId)!;
+          // Start or top-up was decided from the table as this device saw it
+          const seen = tables.find(t => t.id === item.tableId);
+          const expectsSession = item.settlePlay || seen?.status === 'occupied';
+          if (latest.status === 'maintenance') {
+            throw new Error(`${latest.name}: meja sedang dalam perawatan. Hapus dari keranjang.`);
+          }
+          if (expectsSession && (latest.status !== 'occupied' || latest.sessionId !== seen?.sessionId)) {
+            throw new Error(`${latest.name}: sesi meja sudah berubah di perangkat lain. Hapus dari keranjang dan ulangi.`);
+          }
+          if (!expectsSession && latest.status !== 'available') {
+            throw new Error(`${latest.name}: meja baru saja dipakai di perangkat lain. Hapus dari keranjang.`);
+          }
+          // Settling clears the tab, so it must hold exactly the tab lines in this cart
+          if (item.settlePlay) {
+            const tabKey = (i: CartItem) => `${i.productId || ''}|${i.variantType || ''}|${i.price}|${i.quantity}`;
+            const latestTab = (latest.tab || []).map(tabKey).sort().join(',');
+            const cartTab = cart.filter(i => i.tabTableId === item.tableId).map(tabKey).sort().join(',');
+            if (latestTab !== cartTab) {
+              throw new Error(`${latest.name}: tab meja sudah berubah di perangkat lain. Hapus tagihan meja dari keranjang dan ulangi.`);
             }
-          } catch (e) {
-            console.warn('Failed to command lamp for table', tid, e);
           }
+        }
+
+        // 3. Writes. Save Transaction (a split bill is still one transaction, so stock is deducted once)
+        trx.set(transactionRef, {
+          date: Date.now(),
+          type: cart.some(i => i.itemType === 'table') && cart.some(i => i.itemType === 'product') ? 'mixed' : cart[0].itemType === 'table' ? 'rental' : 'sale',
+          items: safeCart,
+          total: total,
+          subtotal,
+          serviceCharge: charges.serviceCharge,
+          tax: charges.tax,
+          taxInclusive: taxSettings.inclusive,
+          rounding: charges.rounding,
+          cashierName: operatorName,
+          customerName: customerName,
+          amountReceived: isSplit ? splitReceived : cashReceived + qrisAmount + creditAmount,
+          change: change,
+          paymentMethod: getMainTender(payments),
+          payments,
+          ...(splits ? { splitMode, splits } : {})
         });
-        // Fire-and-forget: don't block user flow, but log failures
-        Promise.allSettled(promises).then(results => {
-          const failed = results.filter(r => r.status === 'rejected' || (r.status === 'fulfilled' && !(r as any).value?.ok));
-          if (failed.length > 0) console.warn('Some lamp commands failed', failed);
-        });
-      } catch (err) {
-        console.error('Lamp control error', err);
-      }
 
-      alert(`Pembayaran Berhasil!\nKembalian: Rp ${change.toLocaleString()}`);
+        for (const [id, use] of creditUse) {
+          trx.update(creditRef(id), { balance: creditLeft.get(id)! - use.amount, updatedAt: Date.now() });
+        }
+
+        // Every discount is counted on its promotion and kept in the audit log
+        for (const line of discountLines) {
+          const promo = latestPromotions.get(line.promotionId!)!;
+          trx.update(doc(promotionCollection(storeId), promo.id), { usedCount: (promo.usedCount || 0) + 1 });
+          const audit: Omit<PromotionAuditEntry, 'id'> = {
+            transactionId: transactionRef.id,
+            promotionId: promo.id,
+            promotionName: promo.name,
+            code: line.promoCode || null,
+            amount: -line.price,
+            date: Date.now(),
+            cashierName: operatorName,
+            customerName
+          };
+          trx.set(doc(promotionAuditCollection(storeId)), audit);
+        }
+
+        for (const [id, need] of productNeed) {
+          trx.update(productRef(id), { stock: latestProducts.get(id)!.stock - need });
+        }
+        for (const [id, need] of ingredientNeed) {
+          const ing = latestIngredients.get(id);
+          if (ing) trx.update(ingredientRef(id), { stock: ing.stock - need });
+        }
+
+        for (const item of cart) {
+          if (item.itemType !== 'table' || !item.tableId) continue;
+          const table = latestTables.get(item.tableId)!;
+          const isTopup = table.status === 'occupied';
+          const durationMs = (item.duration || 60) * 60 * 1000;
+
+          // Prepaid time is refunded from what was actually paid for it: after discounts, with
+          // service charge and PPN on exclusive prices
+          const itemTotal = getLineCharge(item, billItems, taxSettings, categoryOf);
+          const sessionLog = { transactionId: transactionRef.id, minutes: item.duration || 0 };
+
+          let newData;
+          if (item.settlePlay) {
+            // Closing bill frees the table and clears its tab (tab items are in this cart)
+            newData = { ...AVAILABLE_TABLE_FIELDS, playedMs: increment(getPlayedMs(table)) };
+            if (table.sessionId) {
+              const settle = sessionEvent('settle', operatorName, table.id, sessionLog);
+              trx.update(sessionRef(storeId, table.sessionId), sessionEventUpdate(settle, { status: 'closed', endTime: settle.at }));
+            }
+          } else if (item.openPlay && !isTopup) {
+            const sessionId = doc(sessionCollection(storeId)).id;
+            newData = {
+              status: 'occupied',
+              startTime: Date.now(),
+              duration: 0,
+              endTime: deleteField(),
+              currentCustomer: customerName,
+              openPlay: true,
+              paidAmount: 0,
+              sessionTransactionIds: [transactionRef.id],
+              sessionId
+            };
+            trx.set(sessionRef(storeId, sessionId), newSessionData(table, customerName, true, sessionEvent('start', operatorName, table.id, sessionLog)));
+          } else if (isTopup) {
+            newData = {
+              endTime: (table.endTime || Date.now()) + durationMs,
+              duration: (table.duration || 0) + (item.duration || 0),
+              paidAmount: (table.paidAmount || 0) + itemTotal,
+              sessionTransactionIds: arrayUnion(transactionRef.id)
+            };
+            if (table.sessionId) {
+              trx.update(sessionRef(storeId, table.sessionId), sessionEventUpdate(sessionEvent('topup', operatorName, table.id, sessionLog)));
+            }
+          } else {
+            const sessionId = doc(sessionCollection(storeId)).id;
+            newData = {
+              status: 'occupied',
+              startTime: Date.now(),
+              duration: item.duration || 60,
+              endTime: Date.now() + durationMs,
+              currentCustomer: customerName,
+              paidAmount: itemTotal,
+              sessionTransactionIds: [transactionRef.id],
+              sessionId
+            };
+            trx.set(sessionRef(storeId, sessionId), newSessionData(table, customerName, false, sessionEvent('start', operatorName, table.id, sessionLog)));
+          }
+          trx.update(tableRef(item.tableId), newData);
+
+          if (item.waitlistEntryId) {
+            trx.update(doc(db, `stores/${storeId}/waitlist`, item.waitlistEntryId), {
+              status: 'seated',
+              seatedTableId: item.tableId,
+              resolvedAt: Date.now()
+            });
+          }
+        }
+      });
+
+      alert(splits
+        ? `Pembayaran Berhasil!\n${splits.map(sp => `${sp.payerName} (${PAYMENT_METHOD_LABEL[sp.method || 'cash']}): kembali Rp ${sp.change.toLocaleString()}`).join('\n')}`
+        : `Pembayaran Berhasil!\n${payments.map(p => `${PAYMENT_METHOD_LABEL[p.method]}: Rp ${p.amount.toLocaleString()}`).join('\n')}\nKembalian: Rp ${change.toLocaleString()}`);
       onSuccess();
 
     } catch (e: any) {
@@ -2896,6 +6037,7 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ storeId, cart, currentUse
   };
 
   return (
+    <>
     <Modal title="Checkout - Pembayaran" onClose={onClose}>
       <div className="space-y-4">
         <div className="bg-slate-800 p-2 rounded text-sm text-slate-300 flex justify-between">
@@ -2913,14 +6055,181 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ storeId, cart, currentUse
            />
         </div>
 
+        {/* Promotions */}
+        <div className="bg-slate-900 p-3 rounded border border-slate-700 space-y-2">
+           <input 
+              type="text" 
+              placeholder="Kode Promo (opsional)" 
+              className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-white text-sm uppercase placeholder:normal-case placeholder-slate-500"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value)}
+           />
+           {codeInvalid && <p className="text-xs text-red-400">Kode promo tidak berlaku untuk transaksi ini</p>}
+           {total !== subtotal && (
+              <>
+                 <div className="flex justify-between text-sm text-slate-400">
+                    <span>Subtotal</span>
+                    <span>Rp {subtotal.toLocaleString()}</span>
+                 </div>
+                 {discountLines.map(line => (
+                    <div key={line.promotionId} className="flex justify-between text-sm text-red-400">
+                       <span className="flex items-center gap-1"><Percent size={12}/> {line.name}</span>
+                       <span>- Rp {(-line.price).toLocaleString()}</span>
+                    </div>
+                 ))}
+              </>
+           )}
+           <ChargeLines serviceCharge={charges.serviceCharge} tax={charges.tax} inclusive={taxSettings.inclusive} rounding={charges.rounding} serviceRate={taxSettings.serviceRate} taxRate={taxSettings.taxRate} />
+        </div>
+
+        <button 
+          onClick={() => setIsSplit(!isSplit)}
+          className={`w-full py-2 rounded text-sm font-bold border ${isSplit ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+        >
+           {isSplit ? 'Bayar Terpisah: Aktif' : 'Bayar Terpisah (Split Bill)'}
+        </button>
+
+        {isSplit ? (
+        <div className="bg-slate-900 p-4 rounded border border-slate-700 space-y-3">
+           <div className="flex justify-between items-center">
+              <span className="text-slate-400">Total Tagihan</span>
+              <span className="text-2xl font-bold text-white">Rp {total.toLocaleString()}</span>
+           </div>
+
+           <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(SPLIT_MODE_LABEL) as SplitMode[]).map(mode => (
+                 <button 
+                   key={mode}
+                   onClick={() => setSplitMode(mode)}
+                   className={`py-2 rounded text-xs font-bold ${splitMode === mode ? 'bg-accent text-primary' : 'bg-slate-800 text-slate-300 border border-slate-600'}`}
+                 >
+                    {SPLIT_MODE_LABEL[mode]}
+                 </button>
+              ))}
+           </div>
+
+           {splitMode === 'items' && (
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                 {cart.map((item, idx) => (
+                    <div key={idx} className="flex justify-between items-center gap-2 text-xs">
+                       <span className="text-slate-300 truncate">{item.quantity}x {item.name} (Rp {(item.price * item.quantity).toLocaleString()})</span>
+                       <select 
+                         className="bg-slate-800 border border-slate-600 rounded p-1 text-white"
+                         value={billPayer[idx]}
+                         onChange={(e) => setItemPayer(cart.map((_, i) => i === idx ? Number(e.target.value) : billPayer[i]))}
+                       >
+                          {billPayer[idx] >= payers.length && <option value={billPayer[idx]}>-</option>}
+                          {payers.map((p, pIdx) => <option key={pIdx} value={pIdx}>{p.name || `Pembayar ${pIdx + 1}`}</option>)}
+                       </select>
+                    </div>
+                 ))}
+              </div>
+           )}
+
+           {payers.map((p, idx) => (
+              <div key={idx} className="bg-slate-800 p-2 rounded border border-slate-700 space-y-2">
+                 <div className="flex gap-2 items-center">
+                    <input 
+                      type="text" 
+                      placeholder={`Pembayar ${idx + 1}`} 
+                      className="flex-1 bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm"
+                      value={p.name}
+                      onChange={(e) => updatePayer(idx, { name: e.target.value })}
+                    />
+                    {splitMode === 'amount' ? (
+                       <input 
+                         type="number" 
+                         placeholder="Bagian" 
+                         className="w-28 bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm text-right"
+                         value={p.amount || ''}
+                         onChange={(e) => updatePayer(idx, { amount: Number(e.target.value) })}
+                       />
+                    ) : (
+                       <span className="text-sm font-bold text-white whitespace-nowrap">Rp {shares[idx].toLocaleString()}</span>
+                    )}
+                    {payers.length > 2 && (
+                       <button onClick={() => setPayers(prev => prev.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-300 p-1">
+                          <Trash2 size={16} />
+                       </button>
+                    )}
+                 </div>
+                 <div className="grid grid-cols-3 gap-1">
+                    {PAYMENT_METHODS.map(method => (
+                       <button 
+                         key={method}
+                         disabled={method === 'qris' && !qrisReady}
+                         onClick={() => updatePayer(idx, { method, received: 0 })}
+                         className={`py-1 rounded text-xs font-bold disabled:opacity-40 ${p.method === method ? 'bg-accent text-primary' : 'bg-slate-900 text-slate-300 border border-slate-600'}`}
+                       >
+                          {PAYMENT_METHOD_LABEL[method]}
+                       </button>
+                    ))}
+                 </div>
+                 {p.method === 'cash' && (
+                    <div className="flex gap-2 items-center">
+                       <input 
+                         type="number" 
+                         placeholder="Uang Diterima" 
+                         className="flex-1 bg-slate-900 border border-slate-600 rounded p-2 text-white text-sm text-right font-mono"
+                         value={p.received || ''}
+                         onChange={(e) => updatePayer(idx, { received: Number(e.target.value) })}
+                       />
+                       <button 
+                         onClick={() => updatePayer(idx, { received: shares[idx] })}
+                         className="text-xs bg-slate-700 px-3 py-2 rounded text-slate-300 hover:text-white border border-slate-600 whitespace-nowrap"
+                       >
+                          Uang Pas
+                       </button>
+                       <span className="text-xs text-emerald-400 w-24 text-right">Kembali Rp {Math.max(0, p.received - shares[idx]).toLocaleString()}</span>
+                    </div>
+                 )}
+                 {p.method === 'qris' && (
+                    <div className="flex gap-2 items-center">
+                       <input 
+                         type="text" 
+                         className="flex-1 bg-slate-900 border border-slate-600 rounded p-2 text-white text-xs"
+                         placeholder="No. Referensi QRIS (opsional)"
+                         value={p.reference}
+                         onChange={(e) => updatePayer(idx, { reference: e.target.value })}
+                       />
+                       {p.received === shares[idx] && shares[idx] > 0 ? (
+                          <span className="text-xs text-emerald-400 flex items-center gap-1 whitespace-nowrap"><CheckCircle size={12}/> Lunas</span>
+                       ) : (
+                          <button 
+                            disabled={shares[idx] <= 0}
+                            onClick={() => handleShowQris(idx)}
+                            className="text-xs bg-slate-700 px-3 py-2 rounded text-slate-300 hover:text-white border border-slate-600 whitespace-nowrap flex items-center gap-1 disabled:opacity-40"
+                          >
+                             <QrCode size={12}/> Tampilkan QRIS
+                          </button>
+                       )}
+                    </div>
+                 )}
+                 {p.method === 'credit' && (
+                    <p className="text-xs text-slate-400">Saldo {p.name.trim() || '-'}: Rp {(payerBalances[customerCreditId(p.name)] || 0).toLocaleString()}</p>
+                 )}
+                 {payerErrors[idx] && (p.method !== 'cash' || p.received > 0) && <p className="text-xs text-red-400">{payerErrors[idx]}</p>}
+              </div>
+           ))}
+
+           <button 
+             onClick={() => setPayers(prev => [...prev, emptyPayer])}
+             className="w-full text-xs bg-slate-800 hover:bg-slate-700 border border-dashed border-slate-600 text-slate-300 py-2 rounded flex items-center justify-center gap-1"
+           >
+              <Plus size={14}/> Tambah Pembayar
+           </button>
+
+           {splitError && <p className="text-xs text-red-400">{splitError}</p>}
+        </div>
+        ) : (
         <div className="bg-slate-900 p-4 rounded border border-slate-700">
            <div className="flex justify-between items-center mb-4">
               <span className="text-slate-400">Total Tagihan</span>
               <span className="text-2xl font-bold text-white">Rp {total.toLocaleString()}</span>
            </div>
-           
+
            <div className="mb-2">
-              <label className="block text-xs text-slate-400 mb-1">Uang Diterima</label>
+              <label className="block text-xs text-slate-400 mb-1 flex items-center gap-1"><Banknote size={12}/> Tunai Diterima</label>
               <input 
                  type="number" 
                  className="w-full bg-slate-800 border border-slate-600 rounded p-3 text-white font-mono text-xl text-right focus:border-accent outline-none"
@@ -2931,31 +6240,116 @@ const CheckoutModal: React.FC<CheckoutModalProps> = ({ storeId, cart, currentUse
            </div>
 
            <div className="flex gap-2 mb-4 justify-end overflow-x-auto pb-1 scrollbar-hide">
-              {[total, 10000, 20000, 50000, 100000].map(amt => (
+              {[tenders.cashDue, 10000, 20000, 50000, 100000].filter((amt, idx) => amt > 0 && (idx === 0 || amt !== tenders.cashDue)).map(amt => (
                  <button 
                    key={amt}
                    onClick={() => setCashReceived(amt)}
                    className="text-xs bg-slate-700 px-3 py-1 rounded text-slate-300 hover:text-white hover:bg-slate-600 border border-slate-600 whitespace-nowrap"
                  >
-                    {amt === total ? 'Uang Pas' : `${amt/1000}k`}
+                    {amt === tenders.cashDue ? 'Uang Pas' : `${amt/1000}k`}
                  </button>
               ))}
            </div>
 
+           {/* QRIS */}
+           <div className="mb-3">
+              <label className="block text-xs text-slate-400 mb-1 flex items-center gap-1"><QrCode size={12}/> QRIS {!qrisReady && <span className="text-slate-500">(isi payload QRIS di Pengaturan)</span>}</label>
+              <div className="flex gap-2">
+                 <input 
+                   type="number" 
+                   disabled={!qrisReady}
+                   className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white font-mono text-right disabled:opacity-40"
+                   placeholder="0"
+                   value={qrisAmount || ''}
+                   onChange={(e) => setQrisAmount(Math.max(0, Number(e.target.value)))}
+                 />
+                 <button 
+                   disabled={!qrisReady}
+                   onClick={() => setQrisAmount(Math.max(0, total - creditAmount - cashReceived))}
+                   className="text-xs bg-slate-700 px-3 rounded text-slate-300 hover:text-white border border-slate-600 disabled:opacity-40"
+                 >
+                    Sisa
+                 </button>
+              </div>
+              {qrisAmount > 0 && (
+                 <input 
+                   type="text" 
+                   className="w-full mt-2 bg-slate-800 border border-slate-600 rounded p-2 text-white text-xs"
+                   placeholder="No. Referensi QRIS (opsional)"
+                   value={qrisRef}
+                   onChange={(e) => setQrisRef(e.target.value)}
+                 />
+              )}
+           </div>
+
+           {/* Customer credit */}
+           {creditBalance > 0 && (
+              <div className="mb-3">
+                 <label className="block text-xs text-slate-400 mb-1">Saldo {customerName.trim()} (Rp {creditBalance.toLocaleString()})</label>
+                 <div className="flex gap-2">
+                    <input 
+                      type="number" 
+                      className="flex-1 bg-slate-800 border border-slate-600 rounded p-2 text-white font-mono text-right"
+                      placeholder="0"
+                      value={creditAmount || ''}
+                      onChange={(e) => setCreditAmount(Math.max(0, Number(e.target.value)))}
+                    />
+                    <button 
+                      onClick={() => setCreditAmount(Math.min(creditBalance, Math.max(0, total - qrisAmount)))}
+                      className="text-xs bg-slate-700 px-3 rounded text-slate-300 hover:text-white border border-slate-600"
+                    >
+                       Pakai
+                    </button>
+                 </div>
+              </div>
+           )}
+
            <div className="flex justify-between items-center pt-3 border-t border-slate-800">
-              <span className="text-sm text-emerald-400">Kembalian:</span>
+              <span className="text-sm text-emerald-400">Kembalian (tunai):</span>
               <span className="text-xl font-bold text-emerald-400">Rp {change.toLocaleString()}</span>
            </div>
+           {tenderError && customerName.length > 0 && <p className="text-xs text-red-400 mt-1 text-right">{tenderError}</p>}
         </div>
+        )}
 
         <button 
-          onClick={handleProcessPayment}
+          onClick={showQrisFirst ? () => handleShowQris() : handleProcessPayment}
           disabled={!canPay || loading}
           className="w-full bg-accent hover:bg-emerald-600 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-primary font-bold py-4 rounded-lg text-lg transition flex items-center justify-center gap-2"
         >
-           {loading ? 'Memproses...' : 'PROSES BAYAR'}
+           {loading ? 'Memproses...' : showQrisFirst ? <><QrCode size={20}/> TAMPILKAN QRIS (Rp {qrisAmount.toLocaleString()})</> : 'PROSES BAYAR'}
         </button>
       </div>
     </Modal>
+
+    {/* Fullscreen QRIS for the customer (outside the modal so it covers the whole screen) */}
+    {qrisCode && (
+      <div className="fixed inset-0 z-[60] bg-white flex flex-col items-center justify-center p-6 gap-4 text-slate-900">
+         <p className="text-sm font-bold tracking-widest text-slate-500">QRIS</p>
+         <h2 className="text-2xl font-bold text-center">{getQrisMerchantName(qrisCode)}</h2>
+         {qrisImage 
+           ? <img src={qrisImage} alt="QRIS" className="w-full max-w-[min(80vw,60vh)] aspect-square" style={{ imageRendering: 'pixelated' }} />
+           : <div className="w-full max-w-[min(80vw,60vh)] aspect-square bg-slate-100 animate-pulse rounded" />}
+         <p className="text-4xl font-bold">Rp {(qrisPayer === null ? qrisAmount : shares[qrisPayer]).toLocaleString()}</p>
+         <p className="text-sm text-slate-500 text-center">Pindai dengan aplikasi bank atau e-wallet. Nominal sudah terisi.</p>
+         <div className="flex gap-3 w-full max-w-md">
+            <button 
+              onClick={() => setQrisCode(null)} 
+              disabled={loading}
+              className="flex-1 bg-slate-200 hover:bg-slate-300 text-slate-700 font-bold py-3 rounded-lg"
+            >
+               Batal
+            </button>
+            <button 
+              onClick={qrisPayer === null ? handleProcessPayment : handleConfirmPayerQris} 
+              disabled={loading || !qrisImage}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-300 text-white font-bold py-3 rounded-lg"
+            >
+               {loading ? 'Memproses...' : 'Pembayaran Diterima'}
+            </button>
+         </div>
+      </div>
+    )}
+    </>
   );
 };
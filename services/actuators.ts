@@ -0,0 +1,72 @@
+import { Table, TableActuator, ActuatorKind, ActuatorTrigger, LampAction } from "../types";
+
+// Per-table actuators. The table lamp (Table.lampDeviceId / lampChannel, or the explicit
+// remote URLs) is the built-in actuator PRIMARY_LAMP_ID; Table.actuators adds the rest.
+// The lamp controller keeps each actuator in the action of the table's current phase and
+// sends the 'warning' action when the pre-expiry warning fires.
+
+export const PRIMARY_LAMP_ID = 'lamp';
+
+export const ACTUATOR_KIND_LABEL: Record<ActuatorKind, string> = {
+  'lamp': 'Lampu',
+  'scoreboard': 'Papan Skor',
+  'ball-lock': 'Kunci Bola',
+  'socket': 'Stop Kontak',
+  'custom': 'Lainnya'
+};
+
+export const ACTUATOR_TRIGGER_LABEL: Record<ActuatorTrigger, string> = {
+  start: 'Mulai',
+  warning: 'Peringatan',
+  expiry: 'Waktu Habis',
+  stop: 'Selesai'
+};
+
+export const ACTUATOR_TRIGGERS: ActuatorTrigger[] = ['start', 'warning', 'expiry', 'stop'];
+
+// Defaults when adding an actuator of a kind. Ball lock: relay ON = balls released.
+// The charger socket stays on until the table is stopped.
+export const ACTUATOR_PRESETS: Record<ActuatorKind, Pick<TableActuator, 'triggers' | 'sendDuration'>> = {
+  'lamp': { triggers: { start: 'on', warning: 'blink', expiry: 'off', stop: 'off' }, sendDuration: true },
+  'scoreboard': { triggers: { start: 'on', warning: 'blink', stop: 'off' }, sendDuration: false },
+  'ball-lock': { triggers: { start: 'on', expiry: 'off', stop: 'off' }, sendDuration: true },
+  'socket': { triggers: { start: 'on', stop: 'off' }, sendDuration: false },
+  'custom': { triggers: {}, sendDuration: false }
+};
+
+// Phase of the session the table is in; paused counts as stopped (lamp off, lock closed)
+export const getTablePhase = (table: Table, now = Date.now()): Exclude<ActuatorTrigger, 'warning'> => {
+  if (table.status !== 'occupied' || table.pausedAt) return 'stop';
+  if (!table.openPlay && table.endTime && table.endTime <= now) return 'expiry';
+  return 'start';
+};
+
+// Every actuator of a table, the built-in lamp first (when it is mapped or has explicit URLs)
+export const getTableActuators = (table: Table): TableActuator[] => {
+  const list: TableActuator[] = [];
+  if ((table.lampDeviceId && table.lampChannel) || table.remoteOn || table.remoteOff || table.remoteToggle) {
+    list.push({
+      id: PRIMARY_LAMP_ID,
+      kind: 'lamp',
+      name: ACTUATOR_KIND_LABEL.lamp,
+      lampDeviceId: table.lampDeviceId || '',
+      channel: table.lampChannel || 0,
+      ...ACTUATOR_PRESETS.lamp
+    });
+  }
+  return [...list, ...(table.actuators || [])];
+};
+
+// Action an actuator should be in for the table's current phase (undefined = leave it)
+export const getActuatorAction = (actuator: TableActuator, table: Table, now = Date.now()): LampAction | undefined =>
+  actuator.triggers[getTablePhase(table, now)];
+
+export const createActuator = (kind: ActuatorKind, lampDeviceId: string, channel: number): TableActuator => ({
+  id: `act-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  kind,
+  name: ACTUATOR_KIND_LABEL[kind],
+  lampDeviceId,
+  channel,
+  ...ACTUATOR_PRESETS[kind],
+  triggers: { ...ACTUATOR_PRESETS[kind].triggers }
+});
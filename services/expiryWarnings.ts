@@ -0,0 +1,67 @@
+import { Table, ExpiryWarningSettings } from "../types";
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_EXPIRY_WARNINGS: ExpiryWarningSettings = { minutesBefore: [10, 5], sound: true, blink: true };
+
+export interface ExpiryWarning {
+  key: string; // table + endTime + threshold, so a top-up re-arms the warnings
+  tableId: string;
+  tableName: string;
+  minutesBefore: number;
+  endTime: number;
+}
+
+// Warnings that became due since the last check. `fired` remembers raised keys across calls.
+// When several thresholds have already passed (e.g. the app was just opened), only the
+// tightest one is raised and the earlier ones are marked as fired.
+export const collectDueWarnings = (
+  tables: Table[],
+  minutesBefore: number[],
+  fired: Set<string>,
+  now: number = Date.now()
+) => {
+  const thresholds = [...minutesBefore].filter(m => m > 0).sort((a, b) => a - b);
+  const due: ExpiryWarning[] = [];
+
+  tables.forEach(t => {
+    if (t.status !== 'occupied' || t.openPlay || t.pausedAt || !t.endTime) return;
+    const remaining = t.endTime - now;
+    if (remaining <= 0) return;
+
+    const passed = thresholds.filter(m => remaining <= m * MINUTE);
+    if (passed.length === 0) return;
+
+    const keyFor = (m: number) => `${t.id}:${t.endTime}:${m}`;
+    const tightest = passed[0];
+    if (!fired.has(keyFor(tightest))) {
+      due.push({ key: keyFor(tightest), tableId: t.id, tableName: t.name, minutesBefore: tightest, endTime: t.endTime });
+    }
+    passed.forEach(m => fired.add(keyFor(m)));
+  });
+
+  return due;
+};
+
+// Short two-tone chime through Web Audio (no audio asset needed)
+export const playChime = () => {
+  try {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioCtx) return;
+    const ctx = new AudioCtx();
+    [880, 660].forEach((freq, idx) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + idx * 0.25;
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.3, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.4);
+    });
+    setTimeout(() => ctx.close(), 1000);
+  } catch (e) {
+    console.warn('Chime failed', e);
+  }
+};
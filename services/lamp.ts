@@ -0,0 +1,588 @@
+import { db } from "./firebase";
+import { collection, doc, query, where, onSnapshot, runTransaction, updateDoc, setDoc, deleteDoc, addDoc } from "firebase/firestore";
+import { publishLampCommand, getMqttDeviceStatus, pingMqttDevice } from "./lampMqtt";
+import { signLampUrl } from "./lampAuth";
+import { isSimulatorUrl, simulateLampRequest } from "./lampSimulator";
+import { PRIMARY_LAMP_ID, getTableActuators, getActuatorAction, getTablePhase } from "./actuators";
+import { Table, TableActuator, LampAction, LampCommand, LampControllerLease, LampDevice, LampProtocol, LampStatusIssue, LampLogEntry } from "../types";
+
+// --- Device endpoints ---
+// Boards are registered per store in stores/{storeId}/lamp_devices; each table maps to
+// one board + relay channel (Table.lampDeviceId / lampChannel).
+
+export type LampResult = { ok: boolean; status?: number; text?: string; error?: string; latencyMs?: number };
+
+export const lampDeviceCollection = (storeId: string) => collection(db, `stores/${storeId}/lamp_devices`);
+
+// Default board of the original single-ESP setup, offered when the registry is empty
+export const LEGACY_LAMP_DEVICE: Omit<LampDevice, 'id'> = {
+  name: 'ESP Utama',
+  baseUrl: 'http://192.168.100.120/led',
+  protocol: 'http',
+  channels: 8
+};
+
+export const LAMP_PROTOCOL_LABEL: Record<LampProtocol, string> = {
+  'http': 'HTTP (action + durasi)',
+  'http-state': 'HTTP lama (state=ON/OFF)',
+  'mqtt': 'MQTT (WebSocket)'
+};
+
+export function buildLampUrl(device: LampDevice, channel: number, action: LampAction, durationSec?: number) {
+  const sep = device.baseUrl.includes('?') ? '&' : '?';
+  if (device.protocol === 'http-state') {
+    return `${device.baseUrl}${sep}num=${channel}&state=${action.toUpperCase()}`;
+  }
+  let u = `${device.baseUrl}${sep}num=${channel}&action=${action}`;
+  if (durationSec && durationSec > 0) u += `&duration=${durationSec}`;
+  return u;
+}
+
+// Status request: the board answers JSON {"channels": [1, 0, ...]} (index 0 = channel 1;
+// 1/0, true/false or "on"/"off")
+export function buildLampStatusUrl(device: LampDevice) {
+  const sep = device.baseUrl.includes('?') ? '&' : '?';
+  return device.protocol === 'http-state' ? `${device.baseUrl}${sep}state=STATUS` : `${device.baseUrl}${sep}action=status`;
+}
+
+export async function fetchLampDeviceStatus(device: LampDevice): Promise<{ ok: boolean; states?: ('on' | 'off')[]; error?: string }> {
+  if (device.protocol === 'mqtt') return getMqttDeviceStatus(device);
+  const res = await sendLampRequest(deviceRequestUrl(device, buildLampStatusUrl(device)));
+  if (!res.ok) return { ok: false, error: res.error || `HTTP ${res.status}` };
+  try {
+    const body = JSON.parse(res.text || '');
+    if (!Array.isArray(body.channels)) return { ok: false, error: 'Format status tidak dikenal' };
+    const states = body.channels.map((v: unknown) => (v === true || v === 1 || String(v).toLowerCase() === 'on') ? 'on' : 'off');
+    return { ok: true, states };
+  } catch {
+    return { ok: false, error: 'Format status tidak dikenal' };
+  }
+}
+
+// Boards with a shared secret get ts/nonce/sig appended (see lampAuth.ts)
+const deviceRequestUrl = (device: LampDevice, url: string) => device.secret ? signLampUrl(url, device.secret) : url;
+
+async function sendLampRequest(url: string, timeout = 5000): Promise<LampResult> {
+  if (isSimulatorUrl(url)) return simulateLampRequest(url, timeout);
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeout);
+  const started = performance.now();
+  try {
+    const res = await fetch(url, { method: 'GET', mode: 'cors', cache: 'no-store', signal: controller.signal });
+    clearTimeout(id);
+    const text = await res.text().catch(() => undefined);
+    return { ok: res.ok, status: res.status, text, latencyMs: Math.round(performance.now() - started) };
+  } catch (err: any) {
+    clearTimeout(id);
+    return { ok: false, error: err.name === 'AbortError' ? 'timeout' : String(err), latencyMs: Math.round(performance.now() - started) };
+  }
+}
+
+// Reachability check. Any HTTP answer counts as online, even from firmware without a ping action.
+export async function pingLampDevice(device: LampDevice) {
+  if (device.protocol === 'mqtt') return pingMqttDevice(device);
+  const sep = device.baseUrl.includes('?') ? '&' : '?';
+  const url = device.protocol === 'http-state' ? `${device.baseUrl}${sep}state=PING` : `${device.baseUrl}${sep}action=ping`;
+  const res = await sendLampRequest(deviceRequestUrl(device, url), 3000);
+  const online = res.status !== undefined;
+  return { online, latencyMs: res.latencyMs, error: online ? undefined : res.error };
+}
+
+// Drive one channel of a board over the board's transport (HTTP GET or MQTT publish)
+export function controlLampChannel(device: LampDevice, channel: number, action: LampAction, durationSec?: number): Promise<LampResult> {
+  if (device.protocol === 'mqtt') return publishLampCommand(device, channel, action, durationSec);
+  return sendLampRequest(deviceRequestUrl(device, buildLampUrl(device, channel, action, durationSec)));
+}
+
+export const lampLogCollection = (storeId: string) => collection(db, `stores/${storeId}/lamp_logs`);
+
+export const lampHealthCollection = (storeId: string) => collection(db, `stores/${storeId}/lamp_device_health`);
+
+// Board + channel a table is mapped to, or why it cannot be driven
+export const resolveTableLamp = (table: Table, devices: LampDevice[]) => {
+  if (!table.lampDeviceId || !table.lampChannel) return { error: 'Meja belum dipetakan ke perangkat lampu' };
+  const device = devices.find(d => d.id === table.lampDeviceId);
+  if (!device) return { error: 'Perangkat lampu tidak ditemukan' };
+  if (table.lampChannel < 1 || table.lampChannel > device.channels) return { error: `Channel ${table.lampChannel} di luar jumlah channel ${device.name}` };
+  return { device, channel: table.lampChannel };
+};
+
+// Explicit per-table URLs (remoteOn/Off/Toggle) win; otherwise the registry mapping is used.
+// The explicit URLs are sent as configured (unsigned).
+// Only the lamp controller should call this (see createLampController).
+export async function controlLampForTable(table: Table, devices: LampDevice[], action: LampAction = 'toggle', durationSec?: number): Promise<LampResult> {
+  try {
+    // prefer explicit URLs configured per table
+    let url: string | undefined;
+    if (action === 'on' && table.remoteOn) url = table.remoteOn;
+    else if (action === 'off' && table.remoteOff) url = table.remoteOff;
+    else if (action === 'toggle' && table.remoteToggle) url = table.remoteToggle;
+
+    if (url) {
+      if (durationSec && durationSec > 0) {
+        // append duration param if not present
+        url += (url.includes('?') ? '&' : '?') + `duration=${durationSec}`;
+      }
+      return sendLampRequest(url);
+    }
+
+    const target = resolveTableLamp(table, devices);
+    if (!target.device) return { ok: false, error: target.error };
+    return controlLampChannel(target.device, target.channel, action, durationSec);
+  } catch (e: any) {
+    return { ok: false, error: String(e) };
+  }
+}
+
+// Suggested channel for a table when importing the old setup: the number in its name
+// (e.g. "Meja 1") or its position. Only used once to prefill the mapping.
+export function deriveTableNumber(tableName: string | undefined, index: number) {
+  if (!tableName) return index + 1;
+  const m = tableName.match(/(\d+)/);
+  if (m) return Number(m[1]);
+  return index + 1;
+}
+
+// --- Single lamp controller ---
+// Every tablet sees the same table snapshots, so if each one drove the lamps a single
+// status change would hit the device once per open tablet (and a toggle could flip twice).
+// Instead one device holds a lease doc and is the only one sending lamp commands:
+// - steady state (on/off + remaining time) is derived from the table docs,
+// - one-off actions (blink) go through lamp_commands docs.
+// The lease is renewed by heartbeat; when the holder goes offline another device takes over
+// after LEASE_MS and re-applies the current state of every table.
+
+const LEASE_MS = 30 * 1000;
+const HEARTBEAT_MS = 10 * 1000;
+// One-off commands older than this are skipped (a late blink is worse than none)
+const COMMAND_TTL_MS = 60 * 1000;
+const DEVICE_KEY = 'zyra_device_id';
+
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = `dev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+export const lampLeaseRef = (storeId: string) => doc(db, `stores/${storeId}/system`, 'lampController');
+
+const lampCommandCollection = (storeId: string) => collection(db, `stores/${storeId}/lamp_commands`);
+
+// Take or renew the controller lease. Returns true when this device holds it.
+export const tryAcquireLampLease = (storeId: string, deviceId: string, deviceLabel: string) =>
+  runTransaction(db, async (trx) => {
+    const ref = lampLeaseRef(storeId);
+    const snap = await trx.get(ref);
+    const lease = snap.data() as LampControllerLease | undefined;
+    const now = Date.now();
+    if (lease && lease.deviceId !== deviceId && now - lease.heartbeatAt < LEASE_MS) return false;
+    trx.set(ref, {
+      deviceId,
+      deviceLabel,
+      heartbeatAt: now,
+      acquiredAt: lease?.deviceId === deviceId ? lease.acquiredAt : now
+    });
+    return true;
+  });
+
+// Queue a one-off lamp action. The id makes it idempotent: every device may raise the
+// same event (e.g. a pre-expiry warning), but only the first write creates the command.
+export const enqueueLampCommand = (
+  storeId: string,
+  commandId: string,
+  command: Pick<LampCommand, 'tableId' | 'action' | 'createdBy'> & Partial<Pick<LampCommand, 'durationSec' | 'lampDeviceId' | 'channel' | 'actuatorIds' | 'trigger'>>
+) =>
+  runTransaction(db, async (trx) => {
+    const ref = doc(lampCommandCollection(storeId), commandId);
+    const snap = await trx.get(ref);
+    if (snap.exists()) return false;
+    trx.set(ref, {
+      tableId: command.tableId,
+      action: command.action,
+      createdBy: command.createdBy,
+      durationSec: command.durationSec || 0,
+      ...(command.lampDeviceId ? { lampDeviceId: command.lampDeviceId, channel: command.channel || 1 } : {}),
+      ...(command.actuatorIds ? { actuatorIds: command.actuatorIds } : {}),
+      ...(command.trigger ? { trigger: command.trigger } : {}),
+      status: 'pending',
+      createdAt: Date.now()
+    });
+    return true;
+  });
+
+// Lamp state a table should be in: lit while occupied, not paused and not past its end time
+export const getDesiredLampState = (table: Table) =>
+  getTablePhase(table) === 'start' ? 'on' : 'off';
+
+// Outbox / applied key of an actuator; the table lamp keeps the plain table id
+const actuatorKey = (tableId: string, actuatorId: string) =>
+  actuatorId === PRIMARY_LAMP_ID ? tableId : `${tableId}:${actuatorId}`;
+
+// Changes to this key (action, end time after a top-up, or a new board/channel mapping)
+// trigger a new command
+const actuatorStateKey = (table: Table, actuator: TableActuator) => {
+  const action = getActuatorAction(actuator, table);
+  const target = `${actuator.lampDeviceId}#${actuator.channel}`;
+  return action === 'on' && actuator.sendDuration ? `on:${table.endTime || 0}:${target}` : `${action || 'none'}:${target}`;
+};
+
+const remainingSeconds = (table: Table) =>
+  table.endTime ? Math.max(0, Math.ceil((table.endTime - Date.now()) / 1000)) : undefined;
+
+export const lampStatusCollection = (storeId: string) => collection(db, `stores/${storeId}/lamp_status`);
+
+// --- Outbox ---
+// State commands wait here until the board acknowledges them; failures are retried with
+// backoff. Kept in localStorage so a reload of the controller tablet keeps the retry state.
+const OUTBOX_KEY = 'zyra_lamp_outbox';
+const RETRY_BASE_MS = 2 * 1000;
+const RETRY_MAX_MS = 60 * 1000;
+// Failed attempts before the table is reported on the billiard screen (retries continue)
+const ATTEMPTS_BEFORE_ISSUE = 5;
+const RECONCILE_MS = 60 * 1000;
+const HEALTH_MS = 30 * 1000;
+
+interface OutboxEntry {
+  tableId: string;
+  actuatorId?: string; // Missing = the table lamp
+  stateKey: string; // Desired state when queued; superseded when the table changes
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const loadOutbox = (storeId: string) => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '{}');
+    const entries: OutboxEntry[] = raw.storeId === storeId && Array.isArray(raw.entries) ? raw.entries : [];
+    return new Map(entries.map(e => [actuatorKey(e.tableId, e.actuatorId || PRIMARY_LAMP_ID), e]));
+  } catch {
+    return new Map<string, OutboxEntry>();
+  }
+};
+
+const saveOutbox = (storeId: string, outbox: Map<string, OutboxEntry>) => {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify({ storeId, entries: Array.from(outbox.values()) }));
+};
+
+export interface LampController {
+  syncTables: (tables: Table[]) => void;
+  syncDevices: (devices: LampDevice[]) => void;
+  stop: () => void;
+}
+
+export const createLampController = (
+  storeId: string,
+  deviceId: string,
+  deviceLabel: string,
+  onLeaderChange: (isLeader: boolean) => void
+): LampController => {
+  let isLeader = false;
+  let stopped = false;
+  let tables: Table[] = [];
+  let devices: LampDevice[] = [];
+  const applied = new Map<string, string>(); // actuator key -> last state key queued
+  const outbox = loadOutbox(storeId);
+  const inFlight = new Set<string>();
+  const mismatches = new Map<string, number>(); // tableId -> reconcile rounds still mismatched
+  const issues = new Map<string, LampStatusIssue>(); // Open issues (from lamp_status)
+  let unsubCommands: (() => void) | null = null;
+  let unsubIssues: (() => void) | null = null;
+
+  // Best-effort command log for the Perangkat screen
+  const logResult = (
+    source: LampLogEntry['source'],
+    action: LampAction,
+    result: LampResult,
+    table?: Table,
+    target?: { device?: LampDevice; channel?: number; actuatorName?: string }
+  ) => {
+    const resolved = target || (table ? resolveTableLamp(table, devices) : {});
+    const entry: Omit<LampLogEntry, 'id'> = {
+      at: Date.now(),
+      source,
+      action,
+      ok: result.ok,
+      controllerId: deviceId,
+      ...(table ? { tableId: table.id, tableName: table.name } : {}),
+      ...(resolved.device ? { lampDeviceId: resolved.device.id, deviceName: resolved.device.name } : {}),
+      ...(resolved.channel ? { channel: resolved.channel } : {}),
+      ...(target?.actuatorName ? { actuatorName: target.actuatorName } : {}),
+      ...(result.latencyMs !== undefined ? { latencyMs: result.latencyMs } : {}),
+      ...(result.ok ? {} : { error: result.error || `HTTP ${result.status}` })
+    };
+    addDoc(lampLogCollection(storeId), entry).catch(e => console.warn('Lamp log failed', e));
+  };
+
+  const reportIssue = (table: Table, reported: 'on' | 'off' | null, error?: string) => {
+    const existing = issues.get(table.id);
+    const issue: Omit<LampStatusIssue, 'id'> = {
+      tableId: table.id,
+      tableName: table.name,
+      desired: getDesiredLampState(table),
+      reported,
+      since: existing?.since || Date.now(),
+      checkedAt: Date.now(),
+      ...(error ? { error } : {})
+    };
+    setDoc(doc(lampStatusCollection(storeId), table.id), issue).catch(e => console.warn('Lamp status report failed', e));
+  };
+
+  const clearIssue = (tableId: string) => {
+    if (!issues.has(tableId)) return;
+    deleteDoc(doc(lampStatusCollection(storeId), tableId)).catch(e => console.warn('Lamp status clear failed', e));
+  };
+
+  const enqueue = (table: Table, actuator: TableActuator) => {
+    outbox.set(actuatorKey(table.id, actuator.id), {
+      tableId: table.id,
+      ...(actuator.id !== PRIMARY_LAMP_ID ? { actuatorId: actuator.id } : {}),
+      stateKey: actuatorStateKey(table, actuator),
+      attempts: 0,
+      nextAttemptAt: Date.now()
+    });
+    saveOutbox(storeId, outbox);
+  };
+
+  const applyTable = (table: Table) => {
+    getTableActuators(table).forEach(actuator => {
+      const key = actuatorKey(table.id, actuator.id);
+      const stateKey = actuatorStateKey(table, actuator);
+      if (applied.get(key) === stateKey) return;
+      applied.set(key, stateKey);
+      if (actuator.id === PRIMARY_LAMP_ID) mismatches.delete(table.id);
+      // Entry restored from a reload for the same state keeps its retry schedule
+      if (outbox.get(key)?.stateKey === stateKey) return;
+      if (getActuatorAction(actuator, table)) enqueue(table, actuator);
+      else if (outbox.delete(key)) saveOutbox(storeId, outbox); // Nothing to send in this phase
+    });
+  };
+
+  // Send an action to one actuator: the table lamp honours the explicit remote URLs
+  const driveActuator = async (source: LampLogEntry['source'], table: Table, actuator: TableActuator, action: LampAction, durationSec?: number) => {
+    if (actuator.id === PRIMARY_LAMP_ID) {
+      const result = await controlLampForTable(table, devices, action, durationSec);
+      logResult(source, action, result, table);
+      return result;
+    }
+    const device = devices.find(d => d.id === actuator.lampDeviceId);
+    const result: LampResult = device
+      ? await controlLampChannel(device, actuator.channel, action, durationSec)
+      : { ok: false, error: 'Perangkat tidak ditemukan' };
+    logResult(source, action, result, table, { device, channel: actuator.channel, actuatorName: actuator.name });
+    return result;
+  };
+
+  const sendEntry = async (entry: OutboxEntry) => {
+    const key = actuatorKey(entry.tableId, entry.actuatorId || PRIMARY_LAMP_ID);
+    const table = tables.find(t => t.id === entry.tableId);
+    const actuator = table ? getTableActuators(table).find(a => a.id === (entry.actuatorId || PRIMARY_LAMP_ID)) : undefined;
+    const action = table && actuator ? getActuatorAction(actuator, table) : undefined;
+    if (!table || !actuator || !action || actuatorStateKey(table, actuator) !== entry.stateKey) {
+      // Table / actuator removed or changed since: the newer state has its own entry
+      if (outbox.get(key) === entry) outbox.delete(key);
+      return;
+    }
+    // Duration is computed at send time so a late retry still matches endTime
+    const result = await driveActuator('state', table, actuator, action, action === 'on' && actuator.sendDuration ? remainingSeconds(table) : undefined);
+    if (outbox.get(key) !== entry) return; // Superseded while sending
+
+    const isLamp = actuator.id === PRIMARY_LAMP_ID;
+    if (result.ok) {
+      outbox.delete(key);
+      if (isLamp) clearIssue(table.id);
+    } else {
+      entry.attempts += 1;
+      entry.lastError = result.error || `HTTP ${result.status}`;
+      entry.nextAttemptAt = Date.now() + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (entry.attempts - 1));
+      console.warn('Lamp command failed', table.name, actuator.name, entry.lastError, `(percobaan ${entry.attempts})`);
+      if (isLamp && entry.attempts >= ATTEMPTS_BEFORE_ISSUE) reportIssue(table, null, entry.lastError);
+    }
+    saveOutbox(storeId, outbox);
+  };
+
+  const flushOutbox = () => {
+    if (!isLeader) return;
+    // Catch tables whose end time just passed (start -> expiry has no table doc change)
+    tables.forEach(applyTable);
+    const now = Date.now();
+    outbox.forEach((entry, key) => {
+      if (entry.nextAttemptAt > now || inFlight.has(key)) return;
+      inFlight.add(key);
+      sendEntry(entry)
+        .catch(e => console.warn('Lamp outbox send failed', e))
+        .finally(() => inFlight.delete(key));
+    });
+  };
+
+  // Compare desired lamp state with what each board reports. A mismatch is re-sent once;
+  // if it is still there on the next round, it is reported.
+  const reconcile = async () => {
+    if (!isLeader) return;
+    for (const device of devices.filter(d => d.statusCheck)) {
+      // Tables with explicit URLs are driven elsewhere; the board status does not apply
+      const mapped = tables.filter(t => t.lampDeviceId === device.id && t.lampChannel && !t.remoteOn && !t.remoteOff);
+      if (mapped.length === 0) continue;
+      const status = await fetchLampDeviceStatus(device);
+      if (!isLeader) return;
+      mapped.forEach(table => {
+        if (outbox.has(table.id)) return; // Command still being delivered
+        if (!status.ok || !status.states) {
+          reportIssue(table, null, `${device.name}: ${status.error}`);
+          return;
+        }
+        const reported = status.states[table.lampChannel! - 1] || 'off';
+        if (reported === getDesiredLampState(table)) {
+          mismatches.delete(table.id);
+          clearIssue(table.id);
+          return;
+        }
+        const rounds = (mismatches.get(table.id) || 0) + 1;
+        mismatches.set(table.id, rounds);
+        const lamp = getTableActuators(table).find(a => a.id === PRIMARY_LAMP_ID);
+        if (rounds === 1 && lamp) enqueue(table, lamp);
+        else reportIssue(table, reported);
+      });
+    }
+  };
+
+  const checkHealth = async () => {
+    if (!isLeader) return;
+    await Promise.all(devices.map(async (device) => {
+      const ping = await pingLampDevice(device);
+      const now = Date.now();
+      await setDoc(doc(lampHealthCollection(storeId), device.id), {
+        online: ping.online,
+        latencyMs: ping.latencyMs ?? null,
+        checkedAt: now,
+        error: ping.error || null,
+        ...(ping.online ? { lastSeenAt: now } : {})
+      }, { merge: true });
+    }));
+  };
+
+  const executeCommand = async (command: LampCommand) => {
+    const ref = doc(lampCommandCollection(storeId), command.id);
+    // Claim first so a second controller (split brain during failover) cannot run it too
+    const claimed = await runTransaction(db, async (trx) => {
+      const snap = await trx.get(ref);
+      const latest = snap.data() as LampCommand | undefined;
+      if (!latest || latest.status !== 'pending') return false;
+      if (Date.now() - latest.createdAt > COMMAND_TTL_MS) {
+        trx.update(ref, { status: 'expired', executedBy: deviceId, executedAt: Date.now() });
+        return false;
+      }
+      trx.update(ref, { status: 'sent', executedBy: deviceId, executedAt: Date.now() });
+      return true;
+    });
+    if (!claimed) return;
+
+    const duration = command.durationSec || undefined;
+    const table = tables.find(t => t.id === command.tableId);
+    const device = command.lampDeviceId ? devices.find(d => d.id === command.lampDeviceId) : undefined;
+    let result: LampResult;
+    if (command.actuatorIds && table) {
+      // Fan out to the listed actuators, each with its own action for the trigger
+      const actuators = getTableActuators(table).filter(a => command.actuatorIds!.includes(a.id));
+      const results = await Promise.all(actuators.map(a => {
+        const action = command.trigger ? a.triggers[command.trigger] : command.action;
+        return action ? driveActuator('command', table, a, action, duration) : Promise.resolve<LampResult>({ ok: true });
+      }));
+      const failed = results.find(r => !r.ok);
+      result = failed || { ok: true };
+    } else if (command.lampDeviceId) {
+      result = device && command.channel
+        ? await controlLampChannel(device, command.channel, command.action, duration)
+        : { ok: false, error: 'Perangkat lampu tidak ditemukan' };
+      logResult('command', command.action, result, table, { device, channel: command.channel });
+    } else {
+      result = table
+        ? await controlLampForTable(table, devices, command.action, duration)
+        : { ok: false, error: 'Meja tidak ditemukan' };
+      logResult('command', command.action, result, table);
+    }
+    await updateDoc(ref, result.ok ? { status: 'done' } : { status: 'failed', error: result.error || `HTTP ${result.status}` });
+  };
+
+  const becomeLeader = () => {
+    isLeader = true;
+    // Fresh controller: re-apply every table so the lamps match after a failover
+    applied.clear();
+    tables.forEach(applyTable);
+    unsubCommands = onSnapshot(query(lampCommandCollection(storeId), where('status', '==', 'pending')), (snap) => {
+      snap.docChanges().forEach(change => {
+        if (change.type !== 'added') return;
+        executeCommand({ id: change.doc.id, ...change.doc.data() } as LampCommand)
+          .catch(e => console.warn('Lamp command execution failed', e));
+      });
+    }, (e) => console.warn('Lamp command listener failed', e));
+    unsubIssues = onSnapshot(lampStatusCollection(storeId), (snap) => {
+      issues.clear();
+      snap.docs.forEach(d => issues.set(d.id, { id: d.id, ...d.data() } as LampStatusIssue));
+    }, (e) => console.warn('Lamp status listener failed', e));
+    onLeaderChange(true);
+  };
+
+  const resign = () => {
+    isLeader = false;
+    if (unsubCommands) unsubCommands();
+    if (unsubIssues) unsubIssues();
+    unsubCommands = null;
+    unsubIssues = null;
+    onLeaderChange(false);
+  };
+
+  const heartbeat = async () => {
+    try {
+      const holds = await tryAcquireLampLease(storeId, deviceId, deviceLabel);
+      if (stopped) return;
+      if (holds && !isLeader) becomeLeader();
+      else if (!holds && isLeader) resign();
+    } catch (e) {
+      // Offline: stop acting as controller; another device takes over once the lease lapses
+      console.warn('Lamp lease heartbeat failed', e);
+      if (isLeader) resign();
+    }
+  };
+
+  heartbeat();
+  const iv = setInterval(heartbeat, HEARTBEAT_MS);
+  const outboxIv = setInterval(flushOutbox, 1000);
+  const reconcileIv = setInterval(() => {
+    reconcile().catch(e => console.warn('Lamp reconciliation failed', e));
+  }, RECONCILE_MS);
+  const healthIv = setInterval(() => {
+    checkHealth().catch(e => console.warn('Lamp health check failed', e));
+  }, HEALTH_MS);
+
+  return {
+    syncTables: (latest: Table[]) => {
+      tables = latest;
+      if (isLeader) latest.forEach(applyTable);
+    },
+    syncDevices: (latest: LampDevice[]) => {
+      const changed = JSON.stringify(latest) !== JSON.stringify(devices);
+      devices = latest;
+      // Board URL / protocol edits: re-send the current state of every table
+      if (changed && isLeader) {
+        applied.clear();
+        tables.forEach(applyTable);
+      }
+    },
+    stop: () => {
+      stopped = true;
+      clearInterval(iv);
+      clearInterval(outboxIv);
+      clearInterval(reconcileIv);
+      clearInterval(healthIv);
+      if (isLeader) {
+        resign();
+        // Release the lease so another device can take over immediately
+        updateDoc(lampLeaseRef(storeId), { heartbeatAt: 0 }).catch(e => console.warn('Lamp lease release failed', e));
+      }
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { sha256, hmacSha256Hex, signLampQuery, signLampUrl, verifyLampQuery } from "./lampAuth";
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const SECRET = 'rahasia-meja';
+const NOW = 1760000000 * 1000;
+
+describe('sha256', () => {
+  it('matches the FIPS 180-2 vectors', () => {
+    expect(hex(sha256(utf8('')))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(hex(sha256(utf8('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(hex(sha256(utf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+});
+
+describe('hmacSha256Hex', () => {
+  it('matches RFC 4231 test case 2', () => {
+    expect(hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  it('matches the firmware vector in HELP-LAMP.md', () => {
+    expect(hmacSha256Hex(SECRET, 'num=1&action=on&duration=3600&ts=1760000000&nonce=9f2c4a1be07d3356')).toBe(
+      'b07bcab4a7d5111ad22d2124f43326a0d52d8bf68e2060c94b3c574ed7831988'
+    );
+  });
+});
+
+describe('signLampQuery / verifyLampQuery', () => {
+  it('appends ts, nonce and sig in that order', () => {
+    expect(signLampQuery('num=1&action=on&duration=3600', SECRET, NOW, '9f2c4a1be07d3356')).toBe(
+      'num=1&action=on&duration=3600&ts=1760000000&nonce=9f2c4a1be07d3356' +
+        '&sig=b07bcab4a7d5111ad22d2124f43326a0d52d8bf68e2060c94b3c574ed7831988'
+    );
+  });
+
+  it('accepts what it signed', () => {
+    const query = signLampQuery('num=3&action=off', SECRET, NOW, 'aaaaaaaaaaaaaaaa');
+    expect(verifyLampQuery(query, SECRET, new Set(), NOW)).toEqual({ ok: true });
+  });
+
+  it('signs the base URL params of a full URL', () => {
+    const url = signLampUrl('http://10.0.0.5/relay?key=x&num=2', SECRET, NOW, 'bbbbbbbbbbbbbbbb');
+    expect(verifyLampQuery(url.split('?')[1], SECRET, new Set(), NOW)).toEqual({ ok: true });
+  });
+
+  it('accepts a clock within the skew and rejects a stale ts', () => {
+    const query = signLampQuery('num=1&action=on', SECRET, NOW, 'cccccccccccccccc');
+    expect(verifyLampQuery(query, SECRET, new Set(), NOW + 60 * 1000).ok).toBe(true);
+    expect(verifyLampQuery(query, SECRET, new Set(), NOW + 61 * 1000)).toEqual({ ok: false, error: 'stale ts' });
+    expect(verifyLampQuery(query, SECRET, new Set(), NOW - 61 * 1000)).toEqual({ ok: false, error: 'stale ts' });
+  });
+
+  it('rejects a bad sig', () => {
+    const query = signLampQuery('num=1&action=on', SECRET, NOW, 'dddddddddddddddd');
+    expect(verifyLampQuery(query, 'rahasia-lain', new Set(), NOW)).toEqual({ ok: false, error: 'bad sig' });
+    const tampered = query.replace('action=on', 'action=off');
+    expect(verifyLampQuery(tampered, SECRET, new Set(), NOW)).toEqual({ ok: false, error: 'bad sig' });
+  });
+
+  it('rejects a replayed nonce', () => {
+    const seen = new Set<string>();
+    const query = signLampQuery('num=1&action=on', SECRET, NOW, 'eeeeeeeeeeeeeeee');
+    expect(verifyLampQuery(query, SECRET, seen, NOW).ok).toBe(true);
+    expect(verifyLampQuery(query, SECRET, seen, NOW)).toEqual({ ok: false, error: 'replayed nonce' });
+  });
+
+  it('rejects unsigned and incomplete queries', () => {
+    expect(verifyLampQuery('num=1&action=on', SECRET, new Set(), NOW)).toEqual({ ok: false, error: 'missing sig' });
+    expect(verifyLampQuery('num=1&action=on&sig=00', SECRET, new Set(), NOW)).toEqual({
+      ok: false,
+      error: 'missing ts or nonce'
+    });
+  });
+});
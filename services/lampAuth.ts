@@ -0,0 +1,139 @@
+// Signed lamp commands. A board with a shared secret only accepts requests that carry
+//   ts    = unix time in seconds
+//   nonce = random hex, never reused within the time window
+//   sig   = hex HMAC-SHA256(secret, <query string up to "&sig=">)
+// The signed message is the query exactly as sent, e.g.
+//   num=1&action=on&duration=3600&ts=1760000000&nonce=9f2c4a1be07d3356
+// so the firmware rebuilds it from the received args in order (all except sig).
+// SHA-256 is implemented here because crypto.subtle is missing on plain-HTTP LAN pages.
+
+export const LAMP_SIGNATURE_MAX_SKEW_SEC = 60;
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export function sha256(data: Uint8Array): Uint8Array {
+  // Pad: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+  const bitLength = data.length * 8;
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(padded.length - 4, bitLength >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) | 0;
+      hh = g; g = f; f = e; e = (d + t1) | 0;
+      d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((v, i) => outView.setUint32(i * 4, v));
+  return out;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export function hmacSha256Hex(secret: string, message: string) {
+  const encoder = new TextEncoder();
+  let key = encoder.encode(secret);
+  if (key.length > 64) key = sha256(key);
+  const block = new Uint8Array(64);
+  block.set(key);
+  const inner = new Uint8Array(64);
+  const outer = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  const msg = encoder.encode(message);
+  const innerInput = new Uint8Array(64 + msg.length);
+  innerInput.set(inner);
+  innerInput.set(msg, 64);
+  const outerInput = new Uint8Array(64 + 32);
+  outerInput.set(outer);
+  outerInput.set(sha256(innerInput), 64);
+  return toHex(sha256(outerInput));
+}
+
+const randomNonce = () => {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes);
+};
+
+// Append ts, nonce and sig to a query string ("num=1&action=on")
+export function signLampQuery(query: string, secret: string, now = Date.now(), nonce = randomNonce()) {
+  const unsigned = `${query ? `${query}&` : ''}ts=${Math.floor(now / 1000)}&nonce=${nonce}`;
+  return `${unsigned}&sig=${hmacSha256Hex(secret, unsigned)}`;
+}
+
+// Sign everything after "?" in a full request URL (the base URL's own params included)
+export function signLampUrl(url: string, secret: string, now = Date.now(), nonce = randomNonce()) {
+  const idx = url.indexOf('?');
+  const base = idx >= 0 ? url.slice(0, idx) : url;
+  const query = idx >= 0 ? url.slice(idx + 1) : '';
+  return `${base}?${signLampQuery(query, secret, now, nonce)}`;
+}
+
+// Constant-time compare, so the board does not leak how many hex digits matched
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+// Reference check, the same steps the firmware (and tools/mock-lamp-device.mjs) perform.
+// seenNonces holds the nonces accepted within the time window; the caller prunes it.
+export function verifyLampQuery(
+  query: string,
+  secret: string,
+  seenNonces: Set<string>,
+  now = Date.now(),
+  maxSkewSec = LAMP_SIGNATURE_MAX_SKEW_SEC
+): { ok: boolean; error?: string } {
+  const idx = query.lastIndexOf('&sig=');
+  if (idx < 0) return { ok: false, error: 'missing sig' };
+  const unsigned = query.slice(0, idx);
+  const sig = query.slice(idx + 5).toLowerCase();
+  const params = new URLSearchParams(unsigned);
+  const ts = Number(params.get('ts'));
+  const nonce = params.get('nonce');
+  if (!ts || !nonce) return { ok: false, error: 'missing ts or nonce' };
+  if (Math.abs(now / 1000 - ts) > maxSkewSec) return { ok: false, error: 'stale ts' };
+  if (!safeEqual(hmacSha256Hex(secret, unsigned), sig)) return { ok: false, error: 'bad sig' };
+  if (seenNonces.has(nonce)) return { ok: false, error: 'replayed nonce' };
+  seenNonces.add(nonce);
+  return { ok: true };
+}
@@ -0,0 +1,150 @@
+import mqtt from "mqtt";
+import type { MqttClient } from "mqtt";
+import { LampAction, LampDevice } from "../types";
+import { signLampQuery } from "./lampAuth";
+
+// MQTT over WebSocket transport for lamp boards. Works from an HTTPS page (wss://)
+// and needs no CORS on the board. Topics under the device's topicPrefix:
+//   {prefix}/{channel}/set    <- {"action":"on","duration":3600,"id":"..."} (QoS 1)
+//                                 plus ts/nonce/sig when the device has a secret
+//   {prefix}/{channel}/state  -> "on" | "off" (retained, published by the board after every change)
+//   {prefix}/status           -> "online" | "offline" (retained, "offline" as last will)
+
+type MqttResult = { ok: boolean; error?: string; latencyMs?: number; status?: number; text?: string };
+
+const CONNECT_TIMEOUT_MS = 5000;
+const CONFIRM_TIMEOUT_MS = 5000;
+
+interface BoardConnection {
+  key: string; // Broker URL + credentials + prefix; a changed device gets a new connection
+  client: MqttClient;
+  states: Map<number, 'on' | 'off'>;
+  boardStatus?: string;
+  waiters: Set<(channel: number, state: 'on' | 'off') => void>;
+}
+
+const connections = new Map<string, BoardConnection>();
+
+const prefixOf = (device: LampDevice) => (device.topicPrefix || `zyra/lamp/${device.id}`).replace(/\/+$/, '');
+
+const connectionKey = (device: LampDevice) =>
+  [device.baseUrl, device.username || '', device.password || '', prefixOf(device)].join('|');
+
+const getConnection = (device: LampDevice) => {
+  const key = connectionKey(device);
+  const existing = connections.get(device.id);
+  if (existing && existing.key === key) return existing;
+  if (existing) existing.client.end(true);
+
+  const prefix = prefixOf(device);
+  const client = mqtt.connect(device.baseUrl, {
+    username: device.username || undefined,
+    password: device.password || undefined,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+    reconnectPeriod: 5000,
+    clientId: `zyra-pos-${Math.random().toString(36).slice(2, 10)}`
+  });
+  const conn: BoardConnection = { key, client, states: new Map(), waiters: new Set() };
+
+  client.on('connect', () => {
+    client.subscribe([`${prefix}/+/state`, `${prefix}/status`], { qos: 1 });
+  });
+  client.on('message', (topic, payload) => {
+    const text = payload.toString().trim().toLowerCase();
+    if (topic === `${prefix}/status`) {
+      conn.boardStatus = text;
+      return;
+    }
+    const m = topic.slice(prefix.length + 1).match(/^(\d+)\/state$/);
+    if (!m) return;
+    const channel = Number(m[1]);
+    const state = text === 'on' || text === '1' || text === 'true' ? 'on' : 'off';
+    conn.states.set(channel, state);
+    conn.waiters.forEach(w => w(channel, state));
+  });
+  client.on('error', (e) => console.warn('MQTT error', device.name, e.message));
+
+  connections.set(device.id, conn);
+  return conn;
+};
+
+const waitConnected = (conn: BoardConnection) => new Promise<void>((resolve, reject) => {
+  if (conn.client.connected) return resolve();
+  const timer = setTimeout(() => {
+    conn.client.off('connect', onConnect);
+    reject(new Error('broker timeout'));
+  }, CONNECT_TIMEOUT_MS);
+  const onConnect = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  conn.client.once('connect', onConnect);
+});
+
+// Same signature as the HTTP query of the command: num=N&action=A[&duration=S]&ts=T&nonce=X
+const signedFields = (device: LampDevice, channel: number, action: LampAction, duration?: number) => {
+  if (!device.secret) return {};
+  const params = new URLSearchParams(signLampQuery(`num=${channel}&action=${action}${duration ? `&duration=${duration}` : ''}`, device.secret));
+  return { ts: Number(params.get('ts')), nonce: params.get('nonce'), sig: params.get('sig') };
+};
+
+// Publish a command and wait for the board to confirm it on the state topic
+export async function publishLampCommand(device: LampDevice, channel: number, action: LampAction, durationSec?: number): Promise<MqttResult> {
+  const started = performance.now();
+  const conn = getConnection(device);
+  try {
+    await waitConnected(conn);
+  } catch (e: any) {
+    return { ok: false, error: e.message, latencyMs: Math.round(performance.now() - started) };
+  }
+
+  const expected = action === 'off' ? 'off' : action === 'toggle' ? undefined : 'on';
+  const duration = durationSec && durationSec > 0 ? durationSec : undefined;
+  const payload = JSON.stringify({ action, ...(duration ? { duration } : {}), id: `${Date.now()}`, ...signedFields(device, channel, action, duration) });
+
+  return new Promise<MqttResult>((resolve) => {
+    const finish = (result: MqttResult) => {
+      clearTimeout(timer);
+      conn.waiters.delete(waiter);
+      resolve({ ...result, latencyMs: Math.round(performance.now() - started) });
+    };
+    const waiter = (ch: number, state: 'on' | 'off') => {
+      if (ch === channel && (!expected || state === expected)) finish({ ok: true, text: state });
+    };
+    const timer = setTimeout(() => finish({ ok: false, error: 'tidak ada konfirmasi dari perangkat' }), CONFIRM_TIMEOUT_MS);
+    conn.waiters.add(waiter);
+    conn.client.publish(`${prefixOf(device)}/${channel}/set`, payload, { qos: 1 }, (err) => {
+      if (err) finish({ ok: false, error: err.message });
+    });
+  });
+}
+
+// Relay states from the retained state topics
+export async function getMqttDeviceStatus(device: LampDevice): Promise<{ ok: boolean; states?: ('on' | 'off')[]; error?: string }> {
+  const conn = getConnection(device);
+  try {
+    await waitConnected(conn);
+  } catch (e: any) {
+    return { ok: false, error: e.message };
+  }
+  if (conn.boardStatus === 'offline') return { ok: false, error: 'perangkat offline (last will)' };
+  return { ok: true, states: Array.from({ length: device.channels }, (_, i) => conn.states.get(i + 1) || 'off') };
+}
+
+// Online = broker reachable and the board has not published its last will. Latency is the
+// broker round trip (QoS 1 acknowledgement of a ping message).
+export async function pingMqttDevice(device: LampDevice) {
+  const started = performance.now();
+  const conn = getConnection(device);
+  try {
+    await waitConnected(conn);
+    await new Promise<void>((resolve, reject) => {
+      conn.client.publish(`${prefixOf(device)}/ping`, `${Date.now()}`, { qos: 1 }, (err) => err ? reject(err) : resolve());
+    });
+  } catch (e: any) {
+    return { online: false, latencyMs: Math.round(performance.now() - started), error: e.message };
+  }
+  const latencyMs = Math.round(performance.now() - started);
+  if (conn.boardStatus === 'offline') return { online: false, latencyMs, error: 'perangkat offline (last will)' };
+  return { online: true, latencyMs, error: undefined };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { handleSimulatorRequest, getSimulatedChannels } from "./lampSimulator";
+
+// Boards are module state, so every test uses its own board URL
+let board = 0;
+let base = '';
+const send = (query: string) => handleSimulatorRequest(`${base}?${query}`);
+const channel = (num: number) => getSimulatedChannels(base)[num - 1];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 5, 19, 0));
+  base = `sim://test${++board}/led`;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('handleSimulatorRequest', () => {
+  it('switches off by itself when the duration runs out', () => {
+    expect(send('num=1&action=on&duration=60')).toEqual({ status: 200, text: 'OK' });
+    expect(channel(1)).toMatchObject({ on: true, offAt: Date.now() + 60 * 1000 });
+
+    vi.advanceTimersByTime(59 * 1000);
+    expect(channel(1).on).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(channel(1)).toEqual({ on: false });
+  });
+
+  it('keeps the running auto-off through a blink', () => {
+    send('num=2&action=on&duration=60');
+    const offAt = channel(2).offAt;
+    vi.advanceTimersByTime(10 * 1000);
+
+    send('num=2&action=blink');
+    expect(channel(2)).toMatchObject({ on: true, offAt });
+    expect(channel(2).blinkUntil).toBeGreaterThan(Date.now());
+
+    // Blink ends, the lamp stays on until the original auto-off
+    vi.advanceTimersByTime(5 * 1000);
+    expect(channel(2)).toEqual({ on: true, offAt });
+    vi.advanceTimersByTime(45 * 1000);
+    expect(channel(2)).toEqual({ on: false });
+  });
+
+  it('reports every channel in the status JSON', () => {
+    send('num=2&action=on');
+    send('num=5&action=on');
+    const res = send('action=status');
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.text)).toEqual({ channels: [0, 1, 0, 0, 1, 0, 0, 0] });
+  });
+
+  it('accepts http-state style state=ON/OFF', () => {
+    expect(send('num=3&state=ON').status).toBe(200);
+    expect(channel(3).on).toBe(true);
+    send('num=3&state=OFF');
+    expect(channel(3).on).toBe(false);
+  });
+
+  it('answers ping', () => {
+    expect(send('action=ping')).toEqual({ status: 200, text: 'PONG' });
+  });
+
+  it('rejects a bad channel', () => {
+    expect(send('num=0&action=on')).toEqual({ status: 400, text: 'Invalid channel' });
+    expect(send('num=65&action=on').status).toBe(400);
+    expect(send('num=abc&action=on').status).toBe(400);
+  });
+
+  it('rejects an unknown action', () => {
+    expect(send('num=1&action=dim').status).toBe(400);
+  });
+});
@@ -0,0 +1,139 @@
+import { LampDevice } from "../types";
+
+// In-browser stand-in for an ESP relay board, for development, demos and staff training.
+// A device whose baseUrl starts with sim:// is never fetched: sendLampRequest hands the
+// URL to this module, which implements the same /led contract as the firmware
+// (num/action/state/duration, status, ping) including the duration-based auto-off.
+// Boards live in memory on the device that runs the lamp controller.
+
+export const SIMULATOR_URL_PREFIX = 'sim://';
+
+// Enabled in `npm run dev`, or with LAMP_SIMULATOR=true in .env for a training build
+export const LAMP_SIMULATOR_ENABLED = process.env.LAMP_SIMULATOR === 'true';
+
+export const SIMULATOR_DEVICE: Omit<LampDevice, 'id'> = {
+  name: 'Simulator Lampu',
+  baseUrl: 'sim://local/led',
+  protocol: 'http',
+  channels: 8,
+  statusCheck: true
+};
+
+const DEFAULT_CHANNELS = 8;
+const BLINK_MS = 3000;
+const LATENCY_MS = 40;
+
+export interface SimulatedChannel {
+  on: boolean;
+  offAt?: number; // Auto-off time from the last duration
+  blinkUntil?: number;
+}
+
+interface SimulatedBoard {
+  channels: SimulatedChannel[];
+  offlineUntil: number;
+}
+
+const boards = new Map<string, SimulatedBoard>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+
+export const isSimulatorUrl = (url: string) => url.startsWith(SIMULATOR_URL_PREFIX);
+
+// Board key = URL without the query, so sim://local/led and sim://lantai2/led are two boards
+export const simulatorBoardKey = (url: string) => url.split('?')[0];
+
+const notify = () => listeners.forEach(l => l());
+
+const getBoard = (key: string) => {
+  let board = boards.get(key);
+  if (!board) {
+    board = { channels: Array.from({ length: DEFAULT_CHANNELS }, () => ({ on: false })), offlineUntil: 0 };
+    boards.set(key, board);
+  }
+  return board;
+};
+
+const setChannel = (key: string, ch: number, patch: SimulatedChannel) => {
+  const board = getBoard(key);
+  while (board.channels.length < ch) board.channels.push({ on: false });
+  board.channels[ch - 1] = patch;
+
+  const timerKey = `${key}#${ch}`;
+  clearTimeout(timers.get(timerKey));
+  timers.delete(timerKey);
+  const nextChange = Math.min(patch.offAt ?? Infinity, patch.blinkUntil ?? Infinity);
+  if (nextChange !== Infinity) {
+    timers.set(timerKey, setTimeout(() => {
+      const current = board.channels[ch - 1];
+      const now = Date.now();
+      if (current.offAt && current.offAt <= now) setChannel(key, ch, { on: false });
+      else setChannel(key, ch, { on: current.on, offAt: current.offAt });
+    }, Math.max(0, nextChange - Date.now())));
+  }
+  notify();
+};
+
+// Answer one /led request like the firmware would
+export function handleSimulatorRequest(url: string): { status: number; text: string } {
+  const key = simulatorBoardKey(url);
+  const params = new URLSearchParams(url.includes('?') ? url.slice(url.indexOf('?') + 1) : '');
+  const action = (params.get('action') || params.get('state') || '').toLowerCase();
+  const board = getBoard(key);
+
+  if (action === 'status') return { status: 200, text: JSON.stringify({ channels: board.channels.map(c => (c.on ? 1 : 0)) }) };
+  if (action === 'ping') return { status: 200, text: 'PONG' };
+
+  const ch = Number(params.get('num'));
+  if (!Number.isInteger(ch) || ch < 1 || ch > 64) return { status: 400, text: 'Invalid channel' };
+  const duration = Number(params.get('duration') || 0);
+  const current = board.channels[ch - 1] || { on: false };
+  const offAt = duration > 0 ? Date.now() + duration * 1000 : undefined;
+
+  switch (action) {
+    case 'on': setChannel(key, ch, { on: true, offAt }); break;
+    case 'off': setChannel(key, ch, { on: false }); break;
+    case 'toggle': setChannel(key, ch, current.on ? { on: false } : { on: true, offAt }); break;
+    // Flash, then stay on (keeps a running auto-off)
+    case 'blink': setChannel(key, ch, { on: true, offAt: current.on ? current.offAt : undefined, blinkUntil: Date.now() + BLINK_MS }); break;
+    default: return { status: 400, text: `Unknown action '${action}'` };
+  }
+  return { status: 200, text: 'OK' };
+}
+
+// Transport used by sendLampRequest for sim:// URLs
+export async function simulateLampRequest(url: string, timeout: number) {
+  const started = performance.now();
+  const board = getBoard(simulatorBoardKey(url));
+  if (Date.now() < board.offlineUntil) {
+    await new Promise(r => setTimeout(r, timeout));
+    return { ok: false, error: 'timeout', latencyMs: Math.round(performance.now() - started) };
+  }
+  await new Promise(r => setTimeout(r, LATENCY_MS));
+  const res = handleSimulatorRequest(url);
+  return { ok: res.status < 400, status: res.status, text: res.text, latencyMs: Math.round(performance.now() - started) };
+}
+
+export const getSimulatedChannels = (baseUrl: string): SimulatedChannel[] => getBoard(simulatorBoardKey(baseUrl)).channels;
+
+export const isSimulatorOffline = (baseUrl: string) => Date.now() < getBoard(simulatorBoardKey(baseUrl)).offlineUntil;
+
+// All relays off, like an ESP power cycle (reconciliation should switch the tables back on)
+export function rebootSimulator(baseUrl: string) {
+  const key = simulatorBoardKey(baseUrl);
+  getBoard(key).channels.forEach((_, idx) => setChannel(key, idx + 1, { on: false }));
+}
+
+// Stop answering for a while, to show retries and the offline status
+export function setSimulatorOffline(baseUrl: string, seconds: number) {
+  getBoard(simulatorBoardKey(baseUrl)).offlineUntil = Date.now() + seconds * 1000;
+  notify();
+  setTimeout(notify, seconds * 1000);
+}
+
+export function subscribeSimulator(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,68 @@
+import { db } from "./firebase";
+import { collection } from "firebase/firestore";
+import { Table, MaintenanceType, MaintenanceLogEntry } from "../types";
+import { getPlayedMs } from "./pricing";
+
+const HOUR = 60 * 60 * 1000;
+
+export const maintenanceLogCollection = (storeId: string) => collection(db, `stores/${storeId}/maintenance_logs`);
+
+export const MAINTENANCE_TYPE_LABEL: Record<MaintenanceType, string> = {
+  'cloth': 'Ganti Kain',
+  'cushion': 'Perbaikan Bantalan',
+  'cue-tip': 'Ganti Tip Stik',
+  'cleaning': 'Pembersihan',
+  'other': 'Lainnya'
+};
+
+// Played hours between services; 0 = no reminder
+export const DEFAULT_MAINTENANCE_INTERVALS: Record<MaintenanceType, number> = {
+  'cloth': 1000,
+  'cushion': 3000,
+  'cue-tip': 200,
+  'cleaning': 40,
+  'other': 0
+};
+
+// Lifetime played time of a table, including the running session
+export const getTablePlayedMs = (table: Table, now: number = Date.now()) =>
+  (table.playedMs || 0) + (table.status === 'occupied' ? getPlayedMs(table, now) : 0);
+
+export interface MaintenanceDue {
+  tableId: string;
+  tableName: string;
+  type: MaintenanceType;
+  hoursSince: number; // Played hours since the last service of this type (or since tracking began)
+  intervalHours: number;
+  lastServiceAt?: number;
+}
+
+// Played hours since the last service of each type, per table
+export const getHoursSinceService = (table: Table, logs: MaintenanceLogEntry[], type: MaintenanceType, now: number = Date.now()) => {
+  const last = logs
+    .filter(l => l.tableId === table.id && l.type === type)
+    .sort((a, b) => b.date - a.date)[0];
+  const since = getTablePlayedMs(table, now) - (last?.playedMsAtService || 0);
+  return { hours: Math.max(0, since) / HOUR, lastServiceAt: last?.date };
+};
+
+// Services that are due (played hours reached the interval), most overdue first
+export const getMaintenanceDue = (
+  tables: Table[],
+  logs: MaintenanceLogEntry[],
+  intervals: Partial<Record<MaintenanceType, number>>,
+  now: number = Date.now()
+) => {
+  const due: MaintenanceDue[] = [];
+  tables.forEach(table => {
+    (Object.keys(MAINTENANCE_TYPE_LABEL) as MaintenanceType[]).forEach(type => {
+      const intervalHours = intervals[type] ?? DEFAULT_MAINTENANCE_INTERVALS[type];
+      if (!intervalHours) return;
+      const { hours, lastServiceAt } = getHoursSinceService(table, logs, type, now);
+      if (hours >= intervalHours) {
+        due.push({ tableId: table.id, tableName: table.name, type, hoursSince: hours, intervalHours, ...(lastServiceAt ? { lastServiceAt } : {}) });
+      }
+    });
+  });
+  return due.sort((a, b) => b.hoursSince / b.intervalHours - a.hoursSince / a.intervalHours);
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { Table, RateSchedule, BillingRules } from "../types";
+import { getBillableMinutes, getPlayedMs, quoteTableCharge, DEFAULT_BILLING_RULES } from "./pricing";
+
+const table = { id: 't1', name: 'Meja 1', status: 'available', costPerHour: 60000 } as Table;
+
+const rules = (patch: Partial<BillingRules>): BillingRules => ({ ...DEFAULT_BILLING_RULES, ...patch });
+
+// Monday 2026-01-05, local time
+const at = (hh: number, mm: number) => new Date(2026, 0, 5, hh, mm).getTime();
+
+const schedule: RateSchedule = {
+  id: 's1',
+  name: 'Reguler',
+  bands: [
+    { label: 'Siang', days: [0, 1, 2, 3, 4, 5, 6], start: '10:00', end: '18:00', costPerHour: 30000 },
+    { label: 'Malam', days: [0, 1, 2, 3, 4, 5, 6], start: '18:00', end: '02:00', costPerHour: 60000 }
+  ]
+};
+
+describe('getBillableMinutes', () => {
+  it('rounds up to whole blocks', () => {
+    expect(getBillableMinutes(61, rules({ blockMinutes: 30 }), false)).toBe(90);
+    expect(getBillableMinutes(60, rules({ blockMinutes: 30 }), false)).toBe(60);
+    expect(getBillableMinutes(1, rules({ blockMinutes: 60 }), false)).toBe(60);
+  });
+
+  it('bills per minute with the default rules', () => {
+    expect(getBillableMinutes(47, DEFAULT_BILLING_RULES, false)).toBe(47);
+  });
+
+  it('charges nothing for zero minutes', () => {
+    expect(getBillableMinutes(0, rules({ blockMinutes: 30 }), true)).toBe(0);
+  });
+
+  it('applies the grace period only when asked (elapsed billing)', () => {
+    const r = rules({ blockMinutes: 30, graceMinutes: 5 });
+    expect(getBillableMinutes(65, r, true)).toBe(60);
+    expect(getBillableMinutes(66, r, true)).toBe(90);
+    expect(getBillableMinutes(65, r, false)).toBe(90);
+  });
+
+  it('never bills less than one block, even inside the grace period', () => {
+    expect(getBillableMinutes(3, rules({ blockMinutes: 30, graceMinutes: 5 }), true)).toBe(30);
+  });
+});
+
+describe('quoteTableCharge', () => {
+  it('prices the rounded block at the flat rate', () => {
+    const quote = quoteTableCharge(table, undefined, rules({ blockMinutes: 30 }), at(12, 0), 40, 'start');
+    expect(quote.billedMinutes).toBe(60);
+    expect(quote.total).toBe(60000);
+    expect(quote.detailed).toBe(true);
+  });
+
+  it('uses the grace period for elapsed bills but not for prepaid starts', () => {
+    const r = rules({ blockMinutes: 60, graceMinutes: 10 });
+    expect(quoteTableCharge(table, undefined, r, at(12, 0), 65, 'elapsed').billedMinutes).toBe(60);
+    expect(quoteTableCharge(table, undefined, r, at(12, 0), 65, 'start').billedMinutes).toBe(120);
+  });
+
+  it('raises a short session to the minimum charge', () => {
+    const quote = quoteTableCharge(table, undefined, rules({ minimumCharge: 25000 }), at(12, 0), 15, 'start');
+    expect(quote.total).toBe(25000);
+    expect(quote.minimumApplied).toBe(true);
+    expect(quote.breakdown[quote.breakdown.length - 1]).toMatchObject({ label: 'Tagihan Minimum', amount: 10000 });
+  });
+
+  it('exempts top-ups from the minimum charge', () => {
+    const quote = quoteTableCharge(table, undefined, rules({ minimumCharge: 25000 }), at(12, 0), 15, 'topup');
+    expect(quote.total).toBe(15000);
+    expect(quote.minimumApplied).toBe(false);
+  });
+
+  it('splits the price where the rate band changes', () => {
+    const quote = quoteTableCharge(table, schedule, DEFAULT_BILLING_RULES, at(17, 30), 60, 'start');
+    expect(quote.breakdown).toEqual([
+      { label: 'Siang', minutes: 30, costPerHour: 30000, amount: 15000 },
+      { label: 'Malam', minutes: 30, costPerHour: 60000, amount: 30000 }
+    ]);
+    expect(quote.total).toBe(45000);
+  });
+
+  it('keeps an overnight band across midnight', () => {
+    const quote = quoteTableCharge(table, schedule, DEFAULT_BILLING_RULES, at(23, 30), 60, 'start');
+    expect(quote.breakdown).toEqual([{ label: 'Malam', minutes: 60, costPerHour: 60000, amount: 60000 }]);
+  });
+
+  it('falls back to the flat rate outside every band', () => {
+    const quote = quoteTableCharge(table, schedule, DEFAULT_BILLING_RULES, at(1, 30), 60, 'start');
+    expect(quote.breakdown.map(seg => seg.label)).toEqual(['Malam', 'Tarif Dasar']);
+    expect(quote.total).toBe(30000 + 30000);
+  });
+});
+
+describe('getPlayedMs', () => {
+  const MIN = 60 * 1000;
+  const running = { ...table, status: 'occupied', startTime: at(12, 0) } as Table;
+
+  it('counts from the start time', () => {
+    expect(getPlayedMs(running, at(12, 45))).toBe(45 * MIN);
+  });
+
+  it('leaves out earlier pauses', () => {
+    expect(getPlayedMs({ ...running, pausedTotalMs: 10 * MIN }, at(12, 45))).toBe(35 * MIN);
+  });
+
+  it('stops the clock while paused', () => {
+    const paused = { ...running, pausedTotalMs: 10 * MIN, pausedAt: at(12, 30) };
+    expect(getPlayedMs(paused, at(13, 0))).toBe(20 * MIN);
+  });
+});
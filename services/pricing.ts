@@ -0,0 +1,146 @@
+import { Table, RateBand, RateSchedule, PriceSegment, BillingRules } from "../types";
+
+const MINUTE = 60 * 1000;
+const BASE_LABEL = 'Tarif Dasar';
+
+export const WEEKDAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+export const DEFAULT_BILLING_RULES: BillingRules = { blockMinutes: 1, minimumCharge: 0, graceMinutes: 0 };
+
+export interface TablePriceQuote {
+  total: number;
+  breakdown: PriceSegment[];
+}
+
+// 'start' = new prepaid session, 'topup' = extra time on a running session,
+// 'elapsed' = open-play bill from the actual minutes played
+export type TableChargeKind = 'start' | 'topup' | 'elapsed';
+
+export interface TableChargeQuote extends TablePriceQuote {
+  billedMinutes: number;
+  minimumApplied: boolean;
+  detailed: boolean; // Breakdown differs from a plain "minutes x flat rate" line
+}
+
+// Unused part of a prepaid session, pro-rated from what was paid for it
+export const getUnusedTimeRefund = (table: Table, now: number = Date.now()) => {
+  // A paused timer is frozen at the moment it was paused
+  if (table.pausedAt) now = Math.min(now, table.pausedAt);
+  if (table.openPlay || !table.endTime || !table.duration || !table.paidAmount || table.endTime <= now) {
+    return { remainingMinutes: 0, amount: 0 };
+  }
+  const remainingMinutes = Math.min(table.duration, Math.floor((table.endTime - now) / MINUTE));
+  const amount = Math.round(table.paidAmount * remainingMinutes / table.duration);
+  return { remainingMinutes, amount };
+};
+
+// Total of the cafe orders on a table's running tab
+export const getTabTotal = (table: Table) =>
+  (table.tab || []).reduce((acc, i) => acc + i.price * i.quantity, 0);
+
+// Time actually played since the session started, excluding pauses
+export const getPlayedMs = (table: Table, now: number = Date.now()) => {
+  if (!table.startTime) return 0;
+  const end = table.pausedAt ? Math.min(now, table.pausedAt) : now;
+  return Math.max(0, end - table.startTime - (table.pausedTotalMs || 0));
+};
+
+// Minutes played since the session started (partial minutes count as a full minute)
+export const getElapsedMinutes = (table: Table, now: number = Date.now()) => {
+  return Math.ceil(getPlayedMs(table, now) / MINUTE);
+};
+
+export const getTableSchedule = (table: Table, schedules: RateSchedule[]) => {
+  if (!table.rateScheduleId) return undefined;
+  return schedules.find(s => s.id === table.rateScheduleId);
+};
+
+const toMinuteOfDay = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Weekly time window (rate band, happy hour) containing the moment
+export const isInWeeklyWindow = (band: Pick<RateBand, 'days' | 'start' | 'end'>, at: Date) => {
+  const day = at.getDay();
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const start = toMinuteOfDay(band.start);
+  const end = toMinuteOfDay(band.end);
+
+  if (start < end) {
+    return band.days.includes(day) && minute >= start && minute < end;
+  }
+  // Band crosses midnight: the early-morning part belongs to the previous day's rule
+  return (band.days.includes(day) && minute >= start) ||
+    (band.days.includes((day + 6) % 7) && minute < end);
+};
+
+// Rate in effect at a moment: first matching band, else the table's flat hourly rate
+export const findRate = (table: Table, schedule: RateSchedule | undefined, at: number) => {
+  const band = schedule?.bands.find(b => isInWeeklyWindow(b, new Date(at)));
+  return band
+    ? { label: band.label, costPerHour: band.costPerHour }
+    : { label: BASE_LABEL, costPerHour: table.costPerHour };
+};
+
+// Price `minutes` of play starting at `startTime`, split wherever the rate band changes
+export const quoteTableTime = (table: Table, schedule: RateSchedule | undefined, startTime: number, minutes: number): TablePriceQuote => {
+  const segments: PriceSegment[] = [];
+
+  for (let i = 0; i < minutes; i++) {
+    const rate = findRate(table, schedule, startTime + i * MINUTE);
+    const last = segments[segments.length - 1];
+    if (last && last.label === rate.label && last.costPerHour === rate.costPerHour) {
+      last.minutes += 1;
+    } else {
+      segments.push({ label: rate.label, minutes: 1, costPerHour: rate.costPerHour, amount: 0 });
+    }
+  }
+
+  segments.forEach(seg => { seg.amount = Math.round((seg.minutes / 60) * seg.costPerHour); });
+  const total = segments.reduce((acc, seg) => acc + seg.amount, 0);
+
+  return { total, breakdown: segments };
+};
+
+// Round minutes up to whole billing blocks. The grace period only applies to elapsed time:
+// a block that has only just started (remainder <= grace) is not charged yet.
+export const getBillableMinutes = (minutes: number, rules: BillingRules, withGrace: boolean) => {
+  if (minutes <= 0) return 0;
+  const block = Math.max(1, Math.floor(rules.blockMinutes || 1));
+  const grace = withGrace ? Math.max(0, rules.graceMinutes || 0) : 0;
+  const full = Math.floor(minutes / block) * block;
+  const remainder = minutes - full;
+  const billable = full + (remainder > grace ? block : 0);
+  return Math.max(block, billable);
+};
+
+// Single entry point for every table charge (cart, duration picker, top-up, open-play bill)
+export const quoteTableCharge = (
+  table: Table,
+  schedule: RateSchedule | undefined,
+  rules: BillingRules,
+  startTime: number,
+  minutes: number,
+  kind: TableChargeKind
+): TableChargeQuote => {
+  const billedMinutes = getBillableMinutes(minutes, rules, kind === 'elapsed');
+  const quote = quoteTableTime(table, schedule, startTime, billedMinutes);
+  const breakdown = [...quote.breakdown];
+  let total = quote.total;
+
+  // Minimum charge is per session, so top-ups of a running session are exempt
+  const minimumApplied = kind !== 'topup' && billedMinutes > 0 && total < (rules.minimumCharge || 0);
+  if (minimumApplied) {
+    breakdown.push({ label: 'Tagihan Minimum', minutes: 0, costPerHour: 0, amount: rules.minimumCharge - total });
+    total = rules.minimumCharge;
+  }
+
+  return {
+    total,
+    breakdown,
+    billedMinutes,
+    minimumApplied,
+    detailed: !!schedule || billedMinutes !== minutes || minimumApplied
+  };
+};
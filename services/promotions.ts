@@ -0,0 +1,122 @@
+import { db } from "./firebase";
+import { collection } from "firebase/firestore";
+import { CartItem, Promotion, PromotionType } from "../types";
+import { isInWeeklyWindow } from "./pricing";
+
+export const promotionCollection = (storeId: string) => collection(db, `stores/${storeId}/promotions`);
+
+export const promotionAuditCollection = (storeId: string) => collection(db, `stores/${storeId}/promotion_audit`);
+
+export const PROMOTION_TYPE_LABEL: Record<PromotionType, string> = {
+  'percent': 'Persen',
+  'fixed': 'Potongan Rp',
+  'buy-x-get-y': 'Beli X Gratis Y'
+};
+
+export const NEW_PROMOTION: Omit<Promotion, 'id'> = {
+  name: '',
+  active: true,
+  type: 'percent',
+  scope: 'cart',
+  value: 10,
+  buyQty: 2,
+  getQty: 1,
+  category: null,
+  minSubtotal: 0,
+  happyHour: null,
+  code: null,
+  usageLimit: 0,
+  usedCount: 0,
+  createdAt: 0
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// Why a promotion does not apply right now (ignoring the cart), or null
+export const getPromotionBlocker = (promo: Promotion, now: number, code: string) => {
+  if (!promo.active) return 'Promo tidak aktif';
+  if (promo.code && normalizePromoCode(promo.code) !== normalizePromoCode(code)) return 'Butuh kode promo';
+  if (promo.usageLimit > 0 && (promo.usedCount || 0) >= promo.usageLimit) return 'Kuota promo habis';
+  if (promo.happyHour && !isInWeeklyWindow(promo.happyHour, new Date(now))) return 'Di luar jam promo';
+  return null;
+};
+
+// Product category, or table type for table rentals (undefined when unknown)
+export type CategoryLookup = (item: CartItem) => string | undefined;
+
+const lineTotal = (item: CartItem) => item.price * item.quantity;
+
+// Discount of one promotion on the cart, in whole Rupiah
+export const getPromotionDiscount = (promo: Promotion, cart: CartItem[], categoryOf: CategoryLookup) => {
+  const lines = cart.filter(item =>
+    item.itemType !== 'discount' && item.price > 0 && item.quantity > 0 &&
+    (!promo.category || categoryOf(item) === promo.category)
+  );
+  const subtotal = lines.reduce((acc, item) => acc + lineTotal(item), 0);
+  if (subtotal <= 0 || subtotal < (promo.minSubtotal || 0)) return 0;
+
+  if (promo.type === 'buy-x-get-y') {
+    const group = promo.buyQty + promo.getQty;
+    if (promo.buyQty < 1 || promo.getQty < 1) return 0;
+    // Most expensive units first; the last getQty units of every full group are free
+    const units = lines.flatMap(item => Array<number>(item.quantity).fill(item.price)).sort((a, b) => b - a);
+    return units.reduce((acc, price, idx) => (idx % group >= promo.buyQty && idx - (idx % group) + group <= units.length ? acc + price : acc), 0);
+  }
+
+  if (promo.type === 'percent') {
+    const pct = Math.min(100, Math.max(0, promo.value));
+    return promo.scope === 'line'
+      ? lines.reduce((acc, item) => acc + Math.round(lineTotal(item) * pct / 100), 0)
+      : Math.round(subtotal * pct / 100);
+  }
+
+  return promo.scope === 'line'
+    ? lines.reduce((acc, item) => acc + Math.min(lineTotal(item), promo.value * item.quantity), 0)
+    : Math.min(subtotal, promo.value);
+};
+
+// Discount lines for the cart: every promotion that applies now, largest first,
+// never taking the bill below zero
+export const applyPromotions = (
+  cart: CartItem[],
+  promotions: Promotion[],
+  categoryOf: CategoryLookup,
+  code = '',
+  now = Date.now()
+): CartItem[] => {
+  let remaining = cart.reduce((acc, item) => acc + lineTotal(item), 0);
+  return promotions
+    .filter(promo => !getPromotionBlocker(promo, now, code))
+    .map(promo => ({ promo, amount: getPromotionDiscount(promo, cart, categoryOf) }))
+    .filter(d => d.amount > 0)
+    .sort((a, b) => b.amount - a.amount)
+    .reduce<CartItem[]>((lines, { promo, amount }) => {
+      const applied = Math.min(amount, remaining);
+      if (applied <= 0) return lines;
+      remaining -= applied;
+      return [...lines, {
+        itemType: 'discount',
+        name: `Diskon ${promo.name}`,
+        price: -applied,
+        quantity: 1,
+        promotionId: promo.id,
+        ...(promo.code ? { promoCode: normalizePromoCode(promo.code) } : {})
+      }];
+    }, []);
+};
+
+// Summary of a promotion's rule for lists
+export const describePromotion = (promo: Promotion) => {
+  const what = promo.type === 'buy-x-get-y'
+    ? `Beli ${promo.buyQty} gratis ${promo.getQty}`
+    : promo.type === 'percent'
+      ? `${promo.value}% ${promo.scope === 'line' ? 'per item' : 'dari total'}`
+      : `Rp ${promo.value.toLocaleString()} ${promo.scope === 'line' ? 'per item' : 'dari total'}`;
+  const parts = [what];
+  if (promo.category) parts.push(`kategori ${promo.category}`);
+  if (promo.minSubtotal > 0) parts.push(`min. Rp ${promo.minSubtotal.toLocaleString()}`);
+  if (promo.happyHour) parts.push(`jam ${promo.happyHour.start}-${promo.happyHour.end}`);
+  if (promo.code) parts.push(`kode ${promo.code}`);
+  if (promo.usageLimit > 0) parts.push(`terpakai ${promo.usedCount || 0}/${promo.usageLimit}`);
+  return parts.join(' • ');
+};
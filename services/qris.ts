@@ -0,0 +1,93 @@
+// QRIS (Indonesian EMVCo merchant-presented QR). A payload is a list of TLV fields:
+//   <id: 2 digits><length: 2 digits><value>
+// ending with the CRC field "6304" + CRC16-CCITT (poly 0x1021, init 0xFFFF) in uppercase hex,
+// computed over everything before it including "6304".
+// The merchant's printed (static) QRIS has field 01 = "11" and no amount; a dynamic QR for one
+// sale sets 01 = "12" and adds field 54 with the amount, so the customer cannot change it.
+
+export interface QrisField {
+  id: string;
+  value: string;
+}
+
+export function crc16Ccitt(text: string) {
+  let crc = 0xffff;
+  const bytes = new TextEncoder().encode(text);
+  for (const b of bytes) {
+    crc ^= b << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+// Throws on a malformed payload (length running past the end, non-numeric ids)
+export function parseQris(payload: string): QrisField[] {
+  const fields: QrisField[] = [];
+  let pos = 0;
+  while (pos < payload.length) {
+    const id = payload.slice(pos, pos + 2);
+    const len = Number(payload.slice(pos + 2, pos + 4));
+    if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(payload.slice(pos + 2, pos + 4)) || pos + 4 + len > payload.length) {
+      throw new Error(`Format QRIS rusak di posisi ${pos}`);
+    }
+    fields.push({ id, value: payload.slice(pos + 4, pos + 4 + len) });
+    pos += 4 + len;
+  }
+  return fields;
+}
+
+const encodeField = (f: QrisField) => `${f.id}${String(f.value.length).padStart(2, '0')}${f.value}`;
+
+// Join fields and append a fresh CRC (any existing field 63 is dropped)
+export const buildQris = (fields: QrisField[]) => {
+  const body = fields.filter(f => f.id !== '63').map(encodeField).join('') + '6304';
+  return body + crc16Ccitt(body);
+};
+
+const fieldValue = (fields: QrisField[], id: string) => fields.find(f => f.id === id)?.value;
+
+// Why a static payload cannot be used, or null when it is fine
+export function validateQris(payload: string): string | null {
+  const trimmed = payload.trim();
+  if (!trimmed) return 'Payload QRIS kosong';
+  let fields: QrisField[];
+  try {
+    fields = parseQris(trimmed);
+  } catch (e: any) {
+    return e.message;
+  }
+  if (fieldValue(fields, '00') !== '01') return 'Bukan payload QRIS (field 00 harus 01)';
+  const crc = fieldValue(fields, '63');
+  if (!crc || !trimmed.endsWith(`6304${crc}`)) return 'CRC tidak ditemukan di akhir payload';
+  if (crc16Ccitt(trimmed.slice(0, -4)).toUpperCase() !== crc.toUpperCase()) return 'CRC tidak cocok, payload salah salin';
+  if (fieldValue(fields, '53') && fieldValue(fields, '53') !== '360') return 'Mata uang QRIS bukan Rupiah';
+  if (!fieldValue(fields, '59')) return 'Nama merchant (field 59) tidak ada';
+  return null;
+}
+
+export const getQrisMerchantName = (payload: string) => {
+  try {
+    return fieldValue(parseQris(payload.trim()), '59') || '';
+  } catch {
+    return '';
+  }
+};
+
+// Dynamic QR for one sale: field 01 = 12, field 54 = amount (whole Rupiah), new CRC.
+// Field 54 is placed in id order, i.e. before the first field with a higher id.
+export function buildDynamicQris(staticPayload: string, amount: number) {
+  const error = validateQris(staticPayload);
+  if (error) throw new Error(error);
+  if (!(amount > 0)) throw new Error('Nominal QRIS harus lebih dari 0');
+
+  const fields = parseQris(staticPayload.trim()).filter(f => f.id !== '54' && f.id !== '63');
+  const result = fields.map(f => (f.id === '01' ? { id: '01', value: '12' } : f));
+  if (!result.some(f => f.id === '01')) result.splice(1, 0, { id: '01', value: '12' });
+  const amountField = { id: '54', value: String(Math.round(amount)) };
+  const idx = result.findIndex(f => Number(f.id) > 54);
+  if (idx < 0) result.push(amountField);
+  else result.splice(idx, 0, amountField);
+  return buildQris(result);
+}
@@ -0,0 +1,99 @@
+import { Reservation, Table, Transaction } from "../types";
+
+const MINUTE = 60 * 1000;
+
+export interface BookingConflict {
+  reason: 'booking' | 'occupied';
+  message: string;
+  reservation?: Reservation;
+}
+
+export const reservationEnd = (r: Reservation) => r.startTime + r.duration * MINUTE;
+
+const overlaps = (aStart: number, aEnd: number, bStart: number, bEnd: number) => aStart < bEnd && bStart < aEnd;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+export const DEPOSIT_STATUS_LABEL: Record<NonNullable<Reservation['depositStatus']>, string> = {
+  held: 'Ditahan sebagai saldo',
+  applied: 'Dipakai',
+  released: 'Dikembalikan'
+};
+
+// Booking DP as a transaction: the cash goes into the drawer and the same amount onto the
+// customer's credit, so the total is 0 and it only becomes revenue when the credit is spent.
+// A negative amount returns the DP (cash out, credit taken back).
+export const buildDepositTransaction = (
+  reservation: Pick<Reservation, 'customerName' | 'startTime'>,
+  tableName: string,
+  amount: number,
+  creditId: string,
+  cashierName: string,
+  linkedTransactionIds: string[] = []
+): Omit<Transaction, 'id'> => ({
+  date: Date.now(),
+  type: 'deposit',
+  items: [],
+  total: 0,
+  cashierName,
+  customerName: reservation.customerName,
+  amountReceived: Math.max(0, amount),
+  change: 0,
+  paymentMethod: 'cash',
+  payments: [
+    { method: 'cash', amount, reference: null },
+    { method: 'credit', amount: -amount, reference: creditId }
+  ],
+  reason: `${amount < 0 ? 'Pengembalian DP' : 'DP'} booking ${tableName} ${new Date(reservation.startTime).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`,
+  linkedTransactionIds
+});
+
+// Only 'booked' reservations still hold the table
+export const isActiveReservation = (r: Reservation) => r.status === 'booked';
+
+// Conflicts for using `tableId` from `start` for `duration` minutes (duration 0 = open-ended),
+// against other bookings and the table's live session.
+export const findTableConflicts = (
+  tableId: string,
+  start: number,
+  duration: number,
+  reservations: Reservation[],
+  tables: Table[],
+  ignoreReservationId?: string
+): BookingConflict[] => {
+  const end = duration > 0 ? start + duration * MINUTE : Number.MAX_SAFE_INTEGER;
+  const conflicts: BookingConflict[] = [];
+
+  reservations
+    .filter(r => r.tableId === tableId && r.id !== ignoreReservationId && isActiveReservation(r))
+    .filter(r => overlaps(start, end, r.startTime, reservationEnd(r)))
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(r => conflicts.push({
+      reason: 'booking',
+      reservation: r,
+      message: `Booking ${r.customerName} ${formatTime(r.startTime)} - ${formatTime(reservationEnd(r))}`
+    }));
+
+  const table = tables.find(t => t.id === tableId);
+  if (table && table.status === 'occupied') {
+    // Open play has no endTime, it holds the table until someone closes it
+    const busyUntil = table.endTime || Number.MAX_SAFE_INTEGER;
+    if (overlaps(start, end, Date.now(), busyUntil)) {
+      conflicts.push({
+        reason: 'occupied',
+        message: table.endTime
+          ? `${table.name} sedang dipakai sampai ${formatTime(table.endTime)}`
+          : `${table.name} sedang Main Bebas (tanpa batas waktu)`
+      });
+    }
+  }
+
+  return conflicts;
+};
+
+// Next active booking on a table that has not started yet
+export const getNextReservation = (tableId: string, reservations: Reservation[], now: number = Date.now()) => {
+  return reservations
+    .filter(r => r.tableId === tableId && isActiveReservation(r) && reservationEnd(r) > now)
+    .sort((a, b) => a.startTime - b.startTime)[0];
+};
@@ -0,0 +1,62 @@
+import { db } from "./firebase";
+import { collection, doc, setDoc, updateDoc, arrayUnion } from "firebase/firestore";
+import { Table, TableSession, TableSessionEvent, TableSessionEventType } from "../types";
+
+// Every table session (start to stop/expiry) is kept in stores/{storeId}/table_sessions
+export const sessionCollection = (storeId: string) => collection(db, `stores/${storeId}/table_sessions`);
+
+export const sessionRef = (storeId: string, sessionId: string) => doc(db, `stores/${storeId}/table_sessions`, sessionId);
+
+// Build an event without undefined fields (Firestore rejects them)
+export const sessionEvent = (
+  type: TableSessionEventType,
+  operator: string,
+  tableId: string,
+  extra: Partial<Pick<TableSessionEvent, 'transactionId' | 'minutes' | 'note'>> = {}
+): TableSessionEvent => {
+  const event: TableSessionEvent = { type, at: Date.now(), operator, tableId };
+  if (extra.transactionId) event.transactionId = extra.transactionId;
+  if (extra.minutes !== undefined) event.minutes = extra.minutes;
+  if (extra.note) event.note = extra.note;
+  return event;
+};
+
+// Session document as written at start (also used inside checkout transactions)
+export const newSessionData = (table: Table, customerName: string, openPlay: boolean, start: TableSessionEvent) => {
+  const session: Omit<TableSession, 'id'> = {
+    tableId: table.id,
+    tableName: table.name,
+    customerName,
+    status: 'active',
+    openPlay,
+    startTime: start.at,
+    transactionIds: start.transactionId ? [start.transactionId] : [],
+    events: [start]
+  };
+  return session;
+};
+
+export const sessionEventUpdate = (event: TableSessionEvent, extra: Record<string, any> = {}) => ({
+  events: arrayUnion(event),
+  ...(event.transactionId ? { transactionIds: arrayUnion(event.transactionId) } : {}),
+  ...extra
+});
+
+export const createSession = (
+  storeId: string,
+  sessionId: string,
+  table: Table,
+  customerName: string,
+  openPlay: boolean,
+  start: TableSessionEvent
+) => {
+  return setDoc(sessionRef(storeId, sessionId), newSessionData(table, customerName, openPlay, start));
+};
+
+export const recordSessionEvent = (storeId: string, sessionId: string, event: TableSessionEvent, extra: Record<string, any> = {}) => {
+  return updateDoc(sessionRef(storeId, sessionId), sessionEventUpdate(event, extra));
+};
+
+export const closeSession = (storeId: string, sessionId: string, event: TableSessionEvent) => {
+  return recordSessionEvent(storeId, sessionId, event, { status: 'closed', endTime: event.at });
+};
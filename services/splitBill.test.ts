@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { getSplitShares, validateSplit } from "./splitBill";
+import { cartLine } from "./testCart";
+
+const cart = [cartLine('Kopi', 20000), cartLine('Meja 1', 60000, 'table'), cartLine('Promo', -8000, 'discount')];
+
+describe('by-item split with a discount', () => {
+  it('spreads the discount over the payers like the charges', () => {
+    const shares = getSplitShares('items', cart, 2, [0, 1], [], 0);
+    expect(shares).toEqual([18000, 54000]);
+    expect(validateSplit('items', cart, 2, [0, 1], shares, 0)).toBeNull();
+  });
+
+  it('spreads discount and charges together', () => {
+    const shares = getSplitShares('items', cart, 2, [0, 1], [], 7200);
+    expect(shares).toEqual([19800, 59400]);
+    expect(validateSplit('items', cart, 2, [0, 1], shares, 7200)).toBeNull();
+  });
+
+  it('does not ask for a payer on the discount line', () => {
+    expect(validateSplit('items', cart, 2, [0, 0], getSplitShares('items', cart, 2, [0, 0], [], 0), 0)).toBeNull();
+  });
+});
+
+describe('validateSplit', () => {
+  it('rejects a negative share', () => {
+    const plain = [cartLine('Kopi', 20000)];
+    expect(validateSplit('amount', plain, 2, [], [25000, -5000], 0)).toBe('Bagian pembayar tidak boleh minus');
+  });
+});
@@ -0,0 +1,71 @@
+import { CartItem, SplitMode } from "../types";
+
+export const SPLIT_MODE_LABEL: Record<SplitMode, string> = {
+  equal: 'Rata',
+  items: 'Per Item',
+  amount: 'Nominal'
+};
+
+const lineTotal = (item: CartItem) => item.price * item.quantity;
+
+// Discount lines (promotions) are not assigned to a payer in by-item splits
+const isAssignable = (item: CartItem) => item.itemType !== 'discount';
+
+// Share of each payer. Equal splits put the leftover rupiah on the first payers;
+// by-item shares sum the cart lines assigned to each payer (itemPayer[line] = payer index).
+// Discount lines and charges (service, PPN, rounding on top of the lines) follow each
+// payer's share of the assigned lines.
+export const getSplitShares = (
+  mode: SplitMode,
+  cart: CartItem[],
+  payerCount: number,
+  itemPayer: number[],
+  customAmounts: number[],
+  charges = 0
+) => {
+  const total = cart.reduce((acc, i) => acc + lineTotal(i), 0) + charges;
+  if (mode === 'equal') {
+    const base = Math.floor(total / payerCount);
+    const remainder = total - base * payerCount;
+    return Array.from({ length: payerCount }, (_, idx) => base + (idx < remainder ? 1 : 0));
+  }
+  if (mode === 'items') {
+    const shares = Array(payerCount).fill(0);
+    cart.forEach((item, idx) => {
+      const payer = itemPayer[idx];
+      if (isAssignable(item) && payer >= 0 && payer < payerCount) shares[payer] += lineTotal(item);
+    });
+    const itemsTotal = cart.filter(isAssignable).reduce((acc, i) => acc + lineTotal(i), 0);
+    const adjustment = total - itemsTotal;
+    if (adjustment && itemsTotal > 0) {
+      const extra = shares.map(share => Math.round(adjustment * share / itemsTotal));
+      // Rounding leftover goes to the first payer with items
+      const leftover = adjustment - extra.reduce((acc, e) => acc + e, 0);
+      const first = shares.findIndex(share => share !== 0);
+      if (first >= 0) extra[first] += leftover;
+      return shares.map((share, idx) => share + extra[idx]);
+    }
+    return shares;
+  }
+  return Array.from({ length: payerCount }, (_, idx) => customAmounts[idx] || 0);
+};
+
+// Why the split cannot be paid yet, or null when the shares cover the bill exactly
+export const validateSplit = (
+  mode: SplitMode,
+  cart: CartItem[],
+  payerCount: number,
+  itemPayer: number[],
+  shares: number[],
+  charges = 0
+) => {
+  const total = cart.reduce((acc, i) => acc + lineTotal(i), 0) + charges;
+  if (payerCount < 2) return 'Minimal 2 pembayar';
+  if (mode === 'items' && cart.some((item, idx) => isAssignable(item) && !(itemPayer[idx] >= 0 && itemPayer[idx] < payerCount))) {
+    return 'Semua item harus dibagi ke pembayar';
+  }
+  if (shares.some(s => s < 0)) return 'Bagian pembayar tidak boleh minus';
+  const sum = shares.reduce((acc, s) => acc + s, 0);
+  if (sum !== total) return `Jumlah bagian (Rp ${sum.toLocaleString()}) tidak sama dengan total (Rp ${total.toLocaleString()})`;
+  return null;
+};
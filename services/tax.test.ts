@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { CartItem, TaxSettings } from "../types";
+import { computeCharges, getLineCharge, getNetLineAmount, roundAmount, DEFAULT_TAX_SETTINGS, TABLE_RENTAL_CATEGORY } from "./tax";
+import { cartLine } from "./testCart";
+
+const table = cartLine('Meja 1 (60 Menit)', 60000, 'table');
+const items = [table, cartLine('Kopi', 40000), cartLine('Diskon', -10000, 'discount')];
+const categoryOf = (item: CartItem) => (item.itemType === 'product' ? 'Minuman' : undefined);
+const settings = (patch: Partial<TaxSettings>): TaxSettings => ({ ...DEFAULT_TAX_SETTINGS, ...patch });
+
+describe('roundAmount', () => {
+  it('rounds to the nearest multiple, up or down', () => {
+    expect(roundAmount(1250, 500, 'nearest')).toBe(1500);
+    expect(roundAmount(1249, 500, 'nearest')).toBe(1000);
+    expect(roundAmount(1001, 500, 'up')).toBe(1500);
+    expect(roundAmount(1499, 500, 'down')).toBe(1000);
+  });
+
+  it('only drops fractions when there is no rounding step', () => {
+    expect(roundAmount(1234.6, 1, 'up')).toBe(1235);
+    expect(roundAmount(1234.4, 0, 'down')).toBe(1234);
+  });
+});
+
+describe('computeCharges', () => {
+  const kopi = [cartLine('Kopi', 100000)];
+
+  it('adds service and PPN on exclusive prices, PPN over the service charge', () => {
+    expect(computeCharges(kopi, settings({ serviceRate: 10, taxRate: 11 }), categoryOf)).toEqual({
+      subtotal: 100000, discount: 0, taxableBase: 100000, serviceCharge: 10000, tax: 12100, rounding: 0, total: 122100
+    });
+  });
+
+  it('leaves the service charge out of the PPN base when it is not taxable', () => {
+    const charges = computeCharges(kopi, settings({ serviceRate: 10, taxRate: 11, serviceTaxable: false }), categoryOf);
+    expect(charges).toMatchObject({ serviceCharge: 10000, tax: 11000, total: 121000 });
+  });
+
+  it('splits inclusive prices back into net, service and PPN', () => {
+    const inclusive = settings({ serviceRate: 10, taxRate: 11, inclusive: true });
+    expect(computeCharges([cartLine('Kopi', 122100)], inclusive, categoryOf)).toMatchObject({
+      serviceCharge: 10000, tax: 12100, total: 122100
+    });
+    const untaxedService = { ...inclusive, serviceTaxable: false };
+    expect(computeCharges([cartLine('Kopi', 121000)], untaxedService, categoryOf)).toMatchObject({
+      serviceCharge: 10000, tax: 11000, total: 121000
+    });
+  });
+
+  it('spreads the discount over exempt and taxable lines before PPN', () => {
+    const charges = computeCharges(items, settings({ taxRate: 11, exemptCategories: ['Minuman'] }), categoryOf);
+    expect(charges).toMatchObject({ subtotal: 100000, discount: 10000, taxableBase: 54000, tax: 5940, total: 95940 });
+  });
+
+  it('records the rounding adjustment on the bill', () => {
+    // 12345 + 11% PPN (1358) = 13703
+    const bill = [cartLine('Kopi', 12345)];
+    const round = (mode: TaxSettings['roundingMode']) =>
+      computeCharges(bill, settings({ taxRate: 11, roundTo: 500, roundingMode: mode }), categoryOf);
+    expect(round('nearest')).toMatchObject({ total: 13500, rounding: -203 });
+    expect(round('up')).toMatchObject({ total: 14000, rounding: 297 });
+    expect(round('down')).toMatchObject({ total: 13500, rounding: -203 });
+  });
+});
+
+describe('getNetLineAmount', () => {
+  it('takes the line share of the discount', () => {
+    expect(getNetLineAmount(table, items)).toBe(54000);
+  });
+});
+
+describe('getLineCharge', () => {
+  it('adds service and PPN on exclusive prices', () => {
+    // 54000 + 5% service = 56700, + 11% PPN on that = 62937
+    expect(getLineCharge(table, items, settings({ serviceRate: 5, taxRate: 11 }), categoryOf)).toBe(62937);
+  });
+
+  it('adds nothing when prices already include them', () => {
+    expect(getLineCharge(table, items, settings({ serviceRate: 5, taxRate: 11, inclusive: true }), categoryOf)).toBe(54000);
+  });
+
+  it('adds nothing on exempt table rentals', () => {
+    const s = settings({ taxRate: 11, exemptCategories: [TABLE_RENTAL_CATEGORY] });
+    expect(getLineCharge(table, items, s, categoryOf)).toBe(54000);
+  });
+
+  it('sums to the bill total before rounding', () => {
+    const s = settings({ serviceRate: 5, taxRate: 11 });
+    const charged = items.filter(i => i.itemType !== 'discount').reduce((acc, i) => acc + getLineCharge(i, items, s, categoryOf), 0);
+    expect(charged).toBe(computeCharges(items, s, categoryOf).total);
+  });
+});
@@ -0,0 +1,104 @@
+import { CartItem, TaxSettings, RoundingMode } from "../types";
+
+// Exempting this category exempts every table rental, whatever the table type
+export const TABLE_RENTAL_CATEGORY = 'Sewa Meja';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  serviceRate: 0,
+  taxRate: 0,
+  inclusive: false,
+  serviceTaxable: true,
+  exemptCategories: [],
+  roundTo: 1,
+  roundingMode: 'nearest'
+};
+
+export const ROUNDING_MODE_LABEL: Record<RoundingMode, string> = {
+  nearest: 'Terdekat',
+  up: 'Ke Atas',
+  down: 'Ke Bawah'
+};
+
+export const roundAmount = (amount: number, roundTo: number, mode: RoundingMode) => {
+  if (!(roundTo > 1)) return Math.round(amount);
+  const fn = mode === 'up' ? Math.ceil : mode === 'down' ? Math.floor : Math.round;
+  return fn(amount / roundTo) * roundTo;
+};
+
+const lineTotal = (item: CartItem) => item.price * item.quantity;
+
+const isExemptLine = (item: CartItem, settings: TaxSettings, categoryOf: (item: CartItem) => string | undefined) =>
+  (item.itemType === 'table' && settings.exemptCategories.includes(TABLE_RENTAL_CATEGORY)) ||
+  settings.exemptCategories.includes(categoryOf(item) || '');
+
+const rates = (settings: TaxSettings) => ({
+  s: Math.max(0, settings.serviceRate) / 100,
+  t: Math.max(0, settings.taxRate) / 100
+});
+
+// What one line costs after the discount lines, which are spread over all item lines in
+// proportion to their amounts (the same split as the tax base and split-bill shares)
+export const getNetLineAmount = (item: CartItem, items: CartItem[]) => {
+  const subtotal = items.filter(i => i.itemType !== 'discount').reduce((acc, i) => acc + lineTotal(i), 0);
+  const discount = items.filter(i => i.itemType === 'discount').reduce((acc, i) => acc - lineTotal(i), 0);
+  return subtotal > 0 ? Math.round(lineTotal(item) - discount * lineTotal(item) / subtotal) : lineTotal(item);
+};
+
+export interface BillCharges {
+  subtotal: number; // Item lines
+  discount: number; // Discount lines (positive)
+  taxableBase: number; // Non-exempt share of subtotal - discount (inclusive: still with service and PPN in it)
+  serviceCharge: number;
+  tax: number;
+  rounding: number;
+  total: number;
+}
+
+// Service charge, PPN and rounding for a bill. Discounts are spread over exempt and
+// non-exempt items in proportion to their amounts. Inclusive prices are split back into
+// net + service + PPN; exclusive ones get service and PPN added.
+export const computeCharges = (
+  items: CartItem[],
+  settings: TaxSettings,
+  categoryOf: (item: CartItem) => string | undefined
+): BillCharges => {
+  const isExempt = (item: CartItem) => isExemptLine(item, settings, categoryOf);
+
+  const lines = items.filter(i => i.itemType !== 'discount');
+  const subtotal = lines.reduce((acc, i) => acc + i.price * i.quantity, 0);
+  const discount = items.filter(i => i.itemType === 'discount').reduce((acc, i) => acc - i.price * i.quantity, 0);
+  const taxableSubtotal = lines.filter(i => !isExempt(i)).reduce((acc, i) => acc + i.price * i.quantity, 0);
+  const taxableBase = subtotal > 0 ? taxableSubtotal - discount * taxableSubtotal / subtotal : 0;
+
+  const { s, t } = rates(settings);
+  let serviceCharge: number;
+  let tax: number;
+  if (settings.inclusive) {
+    const factor = settings.serviceTaxable ? (1 + s) * (1 + t) : 1 + s + t;
+    const net = taxableBase / factor;
+    serviceCharge = Math.round(net * s);
+    tax = Math.round(taxableBase - net - net * s);
+  } else {
+    serviceCharge = Math.round(taxableBase * s);
+    tax = Math.round((taxableBase + (settings.serviceTaxable ? serviceCharge : 0)) * t);
+  }
+
+  const unrounded = subtotal - discount + (settings.inclusive ? 0 : serviceCharge + tax);
+  const total = roundAmount(unrounded, settings.roundTo, settings.roundingMode);
+  return { subtotal, discount, taxableBase: Math.round(taxableBase), serviceCharge, tax, rounding: total - unrounded, total };
+};
+
+// What one line costs the customer: its discounted amount plus, with exclusive prices on a
+// non-exempt line, its service charge and PPN. Bill rounding is not spread over the lines.
+export const getLineCharge = (
+  item: CartItem,
+  items: CartItem[],
+  settings: TaxSettings,
+  categoryOf: (item: CartItem) => string | undefined
+) => {
+  const net = getNetLineAmount(item, items);
+  if (settings.inclusive || isExemptLine(item, settings, categoryOf)) return net;
+  const { s, t } = rates(settings);
+  const service = net * s;
+  return Math.round(net + service + (net + (settings.serviceTaxable ? service : 0)) * t);
+};
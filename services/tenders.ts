@@ -0,0 +1,73 @@
+import { Transaction, TenderPayment, PaymentMethod } from "../types";
+
+export const PAYMENT_METHOD_LABEL: Record<PaymentMethod, string> = {
+  cash: 'Tunai',
+  qris: 'QRIS',
+  credit: 'Saldo'
+};
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'qris', 'credit'];
+
+// Tenders of a transaction; transactions from before multi-tender paid everything with paymentMethod
+export const getTransactionPayments = (t: Transaction): TenderPayment[] =>
+  t.payments && t.payments.length > 0
+    ? t.payments
+    : [{ method: t.paymentMethod || 'cash', amount: t.total, reference: null }];
+
+// Amount per tender over a list of transactions (refunds count negative)
+export const sumByTender = (transactions: Transaction[]) => {
+  const sums: Record<PaymentMethod, number> = { cash: 0, qris: 0, credit: 0 };
+  transactions.forEach(t => getTransactionPayments(t).forEach(p => {
+    sums[p.method] = (sums[p.method] || 0) + p.amount;
+  }));
+  return sums;
+};
+
+// Cash received, QRIS and customer credit applied to one bill. Only cash gives change:
+// QRIS and credit together may not exceed the total, and cash covers the rest.
+export const settleTenders = (total: number, cashReceived: number, qris: number, credit: number) => {
+  const nonCash = qris + credit;
+  const cashDue = Math.max(0, total - nonCash);
+  const cashApplied = Math.min(cashReceived, cashDue);
+  const change = Math.max(0, cashReceived - cashDue);
+  return { nonCash, cashDue, cashApplied, change, remaining: Math.max(0, cashDue - cashReceived) };
+};
+
+// Why the tenders cannot complete the sale, or null
+export const validateTenders = (total: number, cashReceived: number, qris: number, credit: number, creditBalance: number) => {
+  if (cashReceived < 0 || qris < 0 || credit < 0) return 'Nominal pembayaran tidak boleh negatif';
+  if (credit > creditBalance) return `Saldo pelanggan hanya Rp ${creditBalance.toLocaleString()}`;
+  if (qris + credit > total) return 'QRIS dan saldo melebihi total, kembalian hanya untuk tunai';
+  const { remaining } = settleTenders(total, cashReceived, qris, credit);
+  if (remaining > 0) return `Kurang Rp ${remaining.toLocaleString()}`;
+  return null;
+};
+
+// Tenders of one split-bill payer, who pays their share with a single method. Cash may give
+// change; QRIS counts once the cashier confirms it (received = share); credit takes the share
+// from the payer's own balance.
+export const getPayerTenders = (method: PaymentMethod, share: number, received: number) => ({
+  cash: method === 'cash' ? received : 0,
+  qris: method === 'qris' ? received : 0,
+  credit: method === 'credit' ? share : 0
+});
+
+// Payments list as stored on the transaction (zero tenders are left out)
+export const buildPayments = (
+  total: number,
+  cashReceived: number,
+  qris: number,
+  credit: number,
+  refs: { qris?: string; credit?: string } = {}
+): TenderPayment[] => {
+  const { cashApplied, change } = settleTenders(total, cashReceived, qris, credit);
+  const payments: TenderPayment[] = [];
+  if (cashApplied > 0) payments.push({ method: 'cash', amount: cashApplied, reference: null, received: cashReceived, change });
+  if (qris > 0) payments.push({ method: 'qris', amount: qris, reference: refs.qris || null });
+  if (credit > 0) payments.push({ method: 'credit', amount: credit, reference: refs.credit || null });
+  return payments;
+};
+
+// Tender with the largest amount, for Transaction.paymentMethod
+export const getMainTender = (payments: TenderPayment[]): PaymentMethod =>
+  payments.reduce<TenderPayment | null>((best, p) => (!best || p.amount > best.amount ? p : best), null)?.method || 'cash';
@@ -0,0 +1,5 @@
+import { CartItem } from "../types";
+
+// Cart line for the unit tests (quantity 1 unless given)
+export const cartLine = (name: string, price: number, itemType: CartItem['itemType'] = 'product', quantity = 1): CartItem =>
+  ({ itemType, name, price, quantity });
@@ -0,0 +1,47 @@
+import { Table, WaitlistEntry } from "../types";
+
+const MINUTE = 60 * 1000;
+// Assumed length of the next session on a table when queueing several parties onto it
+const ASSUMED_SESSION_MINUTES = 60;
+
+const matchesPreference = (table: Table, entry: WaitlistEntry) =>
+  !entry.preferredCategory || table.category === entry.preferredCategory;
+
+// Estimated wait (minutes) for each waiting party, in queue order.
+// Tables free up at their endTime; open-play tables have no known end and are skipped.
+// null = no matching table with a known free time.
+export const estimateWaits = (entries: WaitlistEntry[], tables: Table[], now: number = Date.now()) => {
+  const freeAt = new Map<string, number>();
+  tables.forEach(t => {
+    if (t.status === 'available') freeAt.set(t.id, now);
+    // A paused table frees up later by however long it has been paused so far
+    else if (t.status === 'occupied' && t.endTime) freeAt.set(t.id, Math.max(now, t.endTime + (t.pausedAt ? now - t.pausedAt : 0)));
+  });
+
+  const waits = new Map<string, number | null>();
+  entries
+    .filter(e => e.status === 'waiting')
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach(entry => {
+      const candidates = tables.filter(t => freeAt.has(t.id) && matchesPreference(t, entry));
+      if (candidates.length === 0) {
+        waits.set(entry.id, null);
+        return;
+      }
+      const next = candidates.reduce((best, t) => freeAt.get(t.id)! < freeAt.get(best.id)! ? t : best);
+      const at = freeAt.get(next.id)!;
+      waits.set(entry.id, Math.max(0, Math.ceil((at - now) / MINUTE)));
+      freeAt.set(next.id, at + ASSUMED_SESSION_MINUTES * MINUTE);
+    });
+
+  return waits;
+};
+
+// Available tables for a party, preferred type first
+export const getSeatingOptions = (entry: WaitlistEntry, tables: Table[]) => {
+  const available = tables.filter(t => t.status === 'available');
+  return [
+    ...available.filter(t => matchesPreference(t, entry)),
+    ...available.filter(t => !matchesPreference(t, entry))
+  ];
+};
@@ -0,0 +1,258 @@
+// Local stand-in for an ESP relay board, for testing the lamp controller and the
+// Perangkat screen without hardware. Register it under Billiard > Atur Lampu with
+// base URL http://localhost:8081/led (or your LAN IP when testing from a tablet).
+//
+//   npm run mock:lamp -- --port 8081 --channels 8 --latency 80 --fail-rate 0.2
+//
+// Endpoints (same as the firmware, see HELP-LAMP.md):
+//   /led?num=N&action=on|off|toggle|blink[&duration=S]   protocol 'http'
+//   /led?num=N&state=ON|OFF|TOGGLE|BLINK                 protocol 'http-state'
+//   /led?action=status | state=STATUS                    -> {"channels":[1,0,...]}
+//   /led?action=ping   | state=PING                      -> "PONG"
+// Test helpers:
+//   /                       page with the virtual lamps (open it next to the POS)
+//   /__state                relay states and remaining seconds as JSON (never needs a signature)
+//   /__reboot               all relays off (like an ESP power cycle)
+//   /__offline?seconds=N    stop answering for N seconds
+//
+// MQTT mode (protocol 'mqtt', needs a broker with a WebSocket listener, see tools/mosquitto.conf):
+//
+//   npm run mock:lamp -- --mqtt ws://localhost:9001 --prefix zyra/lamp/mock --channels 8
+//
+// Subscribes to {prefix}/+/set, publishes retained {prefix}/N/state and {prefix}/status
+// (with "offline" as last will). The HTTP endpoints stay available for the test helpers.
+//
+// Signed commands: add --secret <hex> (same as the device's secret in Atur Lampu). Requests
+// without a valid ts/nonce/sig are then rejected with 401 (MQTT: ignored), like the firmware.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import mqtt from 'mqtt';
+
+const args = process.argv.slice(2);
+const arg = (name, fallback) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 && args[idx + 1] !== undefined ? Number(args[idx + 1]) : fallback;
+};
+
+const argText = (name, fallback) => {
+  const idx = args.indexOf(`--${name}`);
+  return idx >= 0 && args[idx + 1] !== undefined ? args[idx + 1] : fallback;
+};
+
+const PORT = arg('port', 8081);
+const CHANNELS = arg('channels', 8);
+const LATENCY_MS = arg('latency', 30);
+const FAIL_RATE = arg('fail-rate', 0);
+const MQTT_URL = argText('mqtt', '');
+const PREFIX = argText('prefix', 'zyra/lamp/mock').replace(/\/+$/, '');
+const SECRET = argText('secret', '');
+const MAX_SKEW_SEC = 60;
+
+const relays = Array(CHANNELS).fill(false);
+const timers = new Map();
+const offAt = new Map();
+let offlineUntil = 0;
+let mqttClient = null;
+
+const log = (...parts) => console.log(new Date().toLocaleTimeString(), ...parts);
+
+// Same check as verifyLampQuery in services/lampAuth.ts. Nonces are kept for the skew window.
+const seenNonces = new Map();
+const verifySignature = (query) => {
+  if (!SECRET) return null;
+  const idx = query.lastIndexOf('&sig=');
+  if (idx < 0) return 'missing sig';
+  const unsigned = query.slice(0, idx);
+  const sig = query.slice(idx + 5).toLowerCase();
+  const params = new URLSearchParams(unsigned);
+  const ts = Number(params.get('ts'));
+  const nonce = params.get('nonce');
+  if (!ts || !nonce) return 'missing ts or nonce';
+  const now = Date.now() / 1000;
+  if (Math.abs(now - ts) > MAX_SKEW_SEC) return 'stale ts';
+  const expected = crypto.createHmac('sha256', SECRET).update(unsigned).digest('hex');
+  if (sig.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) return 'bad sig';
+  seenNonces.forEach((at, n) => now - at > MAX_SKEW_SEC && seenNonces.delete(n));
+  if (seenNonces.has(nonce)) return 'replayed nonce';
+  seenNonces.set(nonce, now);
+  return null;
+};
+
+// Retained so a controller that connects later still sees the current state
+const publishState = (ch) => {
+  if (!mqttClient) return;
+  mqttClient.publish(`${PREFIX}/${ch}/state`, relays[ch - 1] ? 'on' : 'off', { qos: 1, retain: true });
+};
+
+const setRelay = (ch, on, durationSec) => {
+  relays[ch - 1] = on;
+  clearTimeout(timers.get(ch));
+  timers.delete(ch);
+  offAt.delete(ch);
+  if (on && durationSec > 0) {
+    offAt.set(ch, Date.now() + durationSec * 1000);
+    // Firmware switches itself off when the paid time runs out
+    timers.set(ch, setTimeout(() => {
+      relays[ch - 1] = false;
+      offAt.delete(ch);
+      log(`CH ${ch} OFF (duration elapsed)`);
+      publishState(ch);
+    }, durationSec * 1000));
+  }
+  publishState(ch);
+};
+
+const send = (res, status, body, type = 'text/plain') => {
+  res.writeHead(status, {
+    'Content-Type': type,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Cache-Control': 'no-store'
+  });
+  res.end(body);
+};
+
+const handleLed = (url, res) => {
+  const action = (url.searchParams.get('action') || url.searchParams.get('state') || '').toLowerCase();
+  if (action === 'status') return send(res, 200, JSON.stringify({ channels: relays.map(r => (r ? 1 : 0)) }), 'application/json');
+  if (action === 'ping') return send(res, 200, 'PONG');
+
+  const ch = Number(url.searchParams.get('num'));
+  if (!Number.isInteger(ch) || ch < 1 || ch > CHANNELS) return send(res, 400, `Invalid channel (1-${CHANNELS})`);
+  const duration = Number(url.searchParams.get('duration') || 0);
+
+  switch (action) {
+    case 'on': setRelay(ch, true, duration); break;
+    case 'off': setRelay(ch, false); break;
+    case 'toggle': setRelay(ch, !relays[ch - 1], duration); break;
+    case 'blink': setRelay(ch, true); break; // Real boards flash first; the end state is on
+    default: return send(res, 400, `Unknown action '${action}'`);
+  }
+  log(`CH ${ch} ${action.toUpperCase()}${duration ? ` ${duration}s` : ''} -> ${relays[ch - 1] ? 'ON' : 'OFF'}`);
+  return send(res, 200, 'OK');
+};
+
+const STATE_PAGE = `<!doctype html>
+<html><head><meta charset="utf-8"><title>Mock lamp board</title>
+<style>
+  body { background: #0f172a; color: #e2e8f0; font-family: sans-serif; padding: 24px; }
+  #lamps { display: grid; grid-template-columns: repeat(auto-fill, minmax(90px, 1fr)); gap: 12px; }
+  .lamp { border: 1px solid #334155; border-radius: 12px; padding: 12px; text-align: center; background: #1e293b; }
+  .lamp.on { background: #facc15; color: #0f172a; box-shadow: 0 0 24px #facc15; }
+  .bulb { font-size: 28px; }
+  small { display: block; font-family: monospace; }
+</style></head>
+<body><h2>Mock lamp board</h2><div id="lamps"></div>
+<script>
+  const render = async () => {
+    try {
+      const state = await (await fetch('/__state')).json();
+      document.getElementById('lamps').innerHTML = state.channels.map((c, i) => {
+        const left = c.remainingSec != null ? Math.floor(c.remainingSec / 60) + ':' + String(c.remainingSec % 60).padStart(2, '0') : (c.on ? 'ON' : 'OFF');
+        return '<div class="lamp ' + (c.on ? 'on' : '') + '"><div class="bulb">&#128161;</div>CH ' + (i + 1) + '<small>' + left + '</small></div>';
+      }).join('');
+    } catch {}
+  };
+  render();
+  setInterval(render, 1000);
+</script></body></html>`;
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+
+  if (url.pathname === '/') return send(res, 200, STATE_PAGE, 'text/html');
+  if (url.pathname === '/__state') {
+    const channels = relays.map((on, idx) => {
+      const end = offAt.get(idx + 1);
+      return { on, remainingSec: on && end ? Math.max(0, Math.ceil((end - Date.now()) / 1000)) : null };
+    });
+    return send(res, 200, JSON.stringify({ channels }), 'application/json');
+  }
+
+  if (url.pathname === '/__reboot') {
+    relays.fill(false);
+    timers.forEach(t => clearTimeout(t));
+    timers.clear();
+    offAt.clear();
+    relays.forEach((_, idx) => publishState(idx + 1));
+    log('REBOOT: all relays off');
+    return send(res, 200, 'OK');
+  }
+  if (url.pathname === '/__offline') {
+    const seconds = Number(url.searchParams.get('seconds') || 30);
+    offlineUntil = Date.now() + seconds * 1000;
+    log(`OFFLINE for ${seconds}s`);
+    return send(res, 200, 'OK');
+  }
+
+  // Offline: accept the connection but never answer (the app sees a timeout)
+  if (Date.now() < offlineUntil) return;
+
+  setTimeout(() => {
+    if (url.pathname !== '/led') return send(res, 404, 'Not found');
+    const authError = verifySignature(url.search.slice(1));
+    if (authError) {
+      log('Rejected:', authError, url.search);
+      return send(res, 401, authError);
+    }
+    if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+      log('Simulated failure', url.search);
+      return send(res, 500, 'Simulated failure');
+    }
+    handleLed(url, res);
+  }, LATENCY_MS);
+});
+
+server.listen(PORT, () => {
+  log(`Mock lamp board on http://localhost:${PORT}/led (${CHANNELS} channels, ${LATENCY_MS} ms latency, fail rate ${FAIL_RATE}${SECRET ? ', signed commands only' : ''})`);
+});
+
+if (MQTT_URL) {
+  mqttClient = mqtt.connect(MQTT_URL, {
+    clientId: `mock-lamp-${Math.random().toString(36).slice(2, 8)}`,
+    will: { topic: `${PREFIX}/status`, payload: 'offline', qos: 1, retain: true }
+  });
+
+  mqttClient.on('connect', () => {
+    mqttClient.subscribe(`${PREFIX}/+/set`, { qos: 1 });
+    mqttClient.publish(`${PREFIX}/status`, 'online', { qos: 1, retain: true });
+    relays.forEach((_, idx) => publishState(idx + 1));
+    log(`MQTT connected to ${MQTT_URL}, topics ${PREFIX}/N/set -> ${PREFIX}/N/state`);
+  });
+  mqttClient.on('error', (err) => log('MQTT error:', err.message));
+
+  mqttClient.on('message', (topic, payload) => {
+    const m = topic.slice(PREFIX.length + 1).match(/^(\d+)\/set$/);
+    if (!m || Date.now() < offlineUntil) return;
+    const ch = Number(m[1]);
+    if (ch < 1 || ch > CHANNELS) return log(`MQTT invalid channel ${ch}`);
+
+    let command;
+    try {
+      command = JSON.parse(payload.toString());
+    } catch {
+      command = { action: payload.toString() };
+    }
+    const action = String(command.action || '').toLowerCase();
+    const duration = Number(command.duration || 0);
+    if (SECRET) {
+      const query = `num=${ch}&action=${action}${duration ? `&duration=${duration}` : ''}&ts=${command.ts}&nonce=${command.nonce}&sig=${command.sig}`;
+      const authError = verifySignature(query);
+      if (authError) return log('MQTT rejected:', authError, topic);
+    }
+
+    setTimeout(() => {
+      if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) return log('MQTT simulated failure (no state published)', topic);
+      switch (action) {
+        case 'on': setRelay(ch, true, duration); break;
+        case 'off': setRelay(ch, false); break;
+        case 'toggle': setRelay(ch, !relays[ch - 1], duration); break;
+        case 'blink': setRelay(ch, true); break;
+        default: return log(`MQTT unknown action '${action}'`);
+      }
+      log(`MQTT CH ${ch} ${action.toUpperCase()}${duration ? ` ${duration}s` : ''} -> ${relays[ch - 1] ? 'ON' : 'OFF'}`);
+    }, LATENCY_MS);
+  });
+}
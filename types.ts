@@ -45,7 +45,7 @@ export interface Product {
 export interface Table {
   id: string;
   name: string;
-  status: 'available' | 'occupied';
+  status: 'available' | 'occupied' | 'maintenance';
   startTime?: number; // Timestamp
   duration?: number; // Minutes
   endTime?: number; // Timestamp
@@ -55,10 +55,117 @@ export interface Table {
   remoteToggle?: string; // explicit TOGGLE URL (optional)
   costPerHour: number;
   currentCustomer?: string; // Track who is playing
+  openPlay?: boolean; // Open-ended session (no endTime), billed by elapsed time when closed
+  rateScheduleId?: string; // Time-of-day / weekday rates (falls back to costPerHour)
+  paidAmount?: number; // Amount paid for the running session (start + top-ups)
+  sessionTransactionIds?: string[]; // Transactions that paid for the running session
+  sessionId?: string; // Running TableSession doc
+  category?: string; // Table type, e.g. 'Reguler', 'VIP' (used by the waitlist)
+  pausedAt?: number; // Timestamp the timer was paused (0 = running)
+  pausedTotalMs?: number; // Paused time already resumed in this session (excluded from open-play billing)
+  tab?: CartItem[]; // Cafe orders charged to the table, paid when the session is settled
+  lampDeviceId?: string; // Lamp controller board (see LampDevice)
+  lampChannel?: number; // Relay channel on that board (1-based)
+  actuators?: TableActuator[]; // Extra devices switched with the session (the lamp above is the built-in one)
+  maintenanceNote?: string; // Why the table is in maintenance
+  maintenanceSince?: number; // Timestamp maintenance started (0 = not in maintenance)
+  playedMs?: number; // Total played time of finished sessions on this table (service reminders)
+}
+
+export type MaintenanceType = 'cloth' | 'cushion' | 'cue-tip' | 'cleaning' | 'other';
+
+// One service job on a table (stores/{storeId}/maintenance_logs)
+export interface MaintenanceLogEntry {
+  id: string;
+  tableId: string;
+  tableName: string;
+  type: MaintenanceType;
+  note: string;
+  cost: number;
+  date: number; // Timestamp the job was done
+  playedMsAtService: number; // Table.playedMs at that moment; hours since service count from here
+  createdBy: string;
+  createdAt: number;
+}
+
+export type TableSessionEventType = 'start' | 'topup' | 'move' | 'pause' | 'resume' | 'stop' | 'expire' | 'settle' | 'refund';
+
+export interface TableSessionEvent {
+  type: TableSessionEventType;
+  at: number; // Timestamp
+  operator: string;
+  tableId: string; // Table the event happened on
+  transactionId?: string;
+  minutes?: number; // Duration bought (start/topup) or played (settle)
+  note?: string; // e.g. move origin/destination, stop reason
+}
+
+export interface TableSession {
+  id: string;
+  tableId: string; // Current table (follows moves)
+  tableName: string;
+  customerName: string;
+  status: 'active' | 'closed';
+  openPlay: boolean;
+  startTime: number;
+  endTime?: number; // Set when closed
+  transactionIds: string[];
+  events: TableSessionEvent[];
+}
+
+export interface RateBand {
+  label: string; // e.g. 'Siang', 'Malam', 'Weekend'
+  days: number[]; // Weekdays the band applies to (0 = Minggu ... 6 = Sabtu)
+  start: string; // 'HH:MM'
+  end: string; // 'HH:MM', an end before start crosses midnight
+  costPerHour: number;
+}
+
+export interface RateSchedule {
+  id: string;
+  name: string; // Shared by a group of tables, e.g. 'Reguler', 'VIP'
+  bands: RateBand[]; // First matching band wins
+}
+
+export interface PriceSegment {
+  label: string;
+  minutes: number;
+  costPerHour: number;
+  amount: number;
+}
+
+export interface Reservation {
+  id: string;
+  tableId: string;
+  customerName: string;
+  phone: string;
+  startTime: number; // Timestamp
+  duration: number; // Minutes
+  deposit?: number; // DP received (Rp)
+  // DP is held as customer credit under customerName (see the 'deposit' transaction);
+  // applied when the customer arrives, returned in cash when the booking is cancelled
+  depositStatus?: 'held' | 'applied' | 'released';
+  depositTransactionId?: string;
+  note?: string;
+  status: 'booked' | 'arrived' | 'cancelled' | 'no_show';
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  partyName: string;
+  phone: string;
+  preferredCategory?: string; // Table.category, empty = any table
+  status: 'waiting' | 'seated' | 'no_show' | 'cancelled';
+  createdAt: number;
+  createdBy: string;
+  seatedTableId?: string;
+  resolvedAt?: number;
 }
 
 export interface CartItem {
-  itemType: 'product' | 'table'; // Discriminator
+  itemType: 'product' | 'table' | 'discount'; // Discriminator (discount lines have a negative price)
   productId?: string; // For products
   tableId?: string; // For tables
   name: string;
@@ -67,19 +174,103 @@ export interface CartItem {
   variantType?: string;
   isRecipe?: boolean;
   duration?: number; // For tables (minutes)
+  openPlay?: boolean; // For tables: start an open-ended session, billed when closed
+  settlePlay?: boolean; // For tables: closing bill of an open-ended session (frees the table)
+  priceBreakdown?: PriceSegment[]; // For tables: price per rate band
+  waitlistEntryId?: string; // For tables: waiting party seated by this sale
+  partyName?: string; // For tables: prefilled customer name from the waitlist
+  tabTableId?: string; // For products: item comes from this table's running tab
+  promotionId?: string; // For discounts: promotion that gave it
+  promoCode?: string; // For discounts: code entered at checkout
 }
 
 export interface Transaction {
   id: string;
   date: number; // Timestamp
-  type: 'sale' | 'rental' | 'mixed';
+  type: 'sale' | 'rental' | 'mixed' | 'refund' | 'deposit'; // deposit: booking DP moved into or out of customer credit (total 0)
   items: CartItem[];
   total: number;
   cashierName: string;
   customerName: string; // New: Customer Name
   amountReceived: number; // New: Cash given
   change: number; // New: Change returned
-  paymentMethod: 'cash' | 'qris';
+  paymentMethod: PaymentMethod; // Largest tender (older transactions: the only one)
+  payments?: TenderPayment[]; // Every tender; missing on transactions made before multi-tender
+  // Charges (missing on transactions made before tax settings). total = subtotal + discounts
+  // + rounding, plus serviceCharge + tax unless taxInclusive
+  subtotal?: number; // Items before discounts
+  serviceCharge?: number;
+  tax?: number; // PPN
+  taxInclusive?: boolean;
+  rounding?: number; // Adjustment to the rounded total (may be negative)
+  // Refunds (negative total)
+  reason?: string;
+  linkedTransactionIds?: string[]; // Transactions being refunded
+  // Split bill: one transaction (stock deducted once), paid by several payers
+  splitMode?: SplitMode;
+  splits?: SplitPayment[];
+}
+
+export type PaymentMethod = 'cash' | 'qris' | 'credit';
+
+export interface TenderPayment {
+  method: PaymentMethod;
+  amount: number; // Applied to the bill (cash: without change; refunds: negative)
+  reference: string | null; // QRIS reference no., customer credit account id
+  received?: number; // Cash only: money handed over
+  change?: number; // Cash only
+}
+
+export type SplitMode = 'equal' | 'items' | 'amount';
+
+export interface SplitPayment {
+  payerName: string;
+  amount: number; // Share of the total
+  amountReceived: number;
+  change: number;
+  method?: PaymentMethod; // Tender of this payer; missing on split bills from before per-payer tenders (cash)
+  reference?: string | null; // QRIS reference or customer_credits id
+  itemIndexes?: number[]; // Split by item: cart lines this payer covers
+}
+
+export type PromotionType = 'percent' | 'fixed' | 'buy-x-get-y';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  active: boolean;
+  type: PromotionType;
+  scope: 'cart' | 'line'; // percent/fixed: once on the qualifying subtotal, or on every qualifying line
+  value: number; // percent: 0-100; fixed: Rp (per unit for line scope)
+  buyQty: number; // buy-x-get-y: every buyQty units...
+  getQty: number; // ...give getQty more (the cheapest) free
+  category: string | null; // Only items of this product category / table type (null = all)
+  minSubtotal: number; // Qualifying subtotal needed (Rp)
+  happyHour: { days: number[]; start: string; end: string } | null; // Weekdays 0-6, 'HH:MM'
+  code: string | null; // Only when this code is entered at checkout
+  usageLimit: number; // Number of transactions (0 = unlimited)
+  usedCount: number;
+  createdAt: number;
+}
+
+// Every discount given, for audit (stores/{storeId}/promotion_audit)
+export interface PromotionAuditEntry {
+  id: string;
+  transactionId: string;
+  promotionId: string;
+  promotionName: string;
+  code: string | null;
+  amount: number;
+  date: number;
+  cashierName: string;
+  customerName: string;
+}
+
+export interface CustomerCredit {
+  id: string; // Normalized customer name
+  customerName: string;
+  balance: number;
+  updatedAt: number;
 }
 
 export interface StoreSettings {
@@ -94,6 +285,36 @@ export interface StoreSettings {
   tiktok?: string;
   whatsapp?: string;
   footerNote?: string;
+  // Table Billing
+  billing?: BillingRules;
+  expiryWarnings?: ExpiryWarningSettings;
+  maintenanceIntervals?: Partial<Record<MaintenanceType, number>>; // Played hours between services (0 = no reminder)
+  qrisPayload?: string; // Merchant's static QRIS string; checkout turns it into a dynamic QR per sale
+  tax?: TaxSettings;
+}
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface TaxSettings {
+  serviceRate: number; // Service charge % (0 = off)
+  taxRate: number; // PPN % (0 = off)
+  inclusive: boolean; // Prices already include service and PPN
+  serviceTaxable: boolean; // PPN is also charged on the service charge
+  exemptCategories: string[]; // Product categories / table types without service and PPN
+  roundTo: number; // Round the bill to a multiple of this (1 = no rounding)
+  roundingMode: RoundingMode;
+}
+
+export interface ExpiryWarningSettings {
+  minutesBefore: number[]; // e.g. [10, 5]
+  sound: boolean; // Chime on the POS device
+  blink: boolean; // Blink the table lamp
+}
+
+export interface BillingRules {
+  blockMinutes: number; // Time is billed in blocks, rounded up (1 = per minute)
+  minimumCharge: number; // Minimum amount per session (Rp)
+  graceMinutes: number; // Elapsed-time billing: minutes into a block before it is charged
 }
 
 export interface Shift {
@@ -101,3 +322,110 @@ export interface Shift {
   startTime: number;
   startCash: number;
 }
+
+// --- Lamp controller ---
+// Only one device (the lease holder) talks to the lamp hardware
+export interface LampControllerLease {
+  deviceId: string;
+  deviceLabel: string;
+  heartbeatAt: number; // Timestamp; the lease is free once this is older than the lease time
+  acquiredAt: number;
+}
+
+export type LampAction = 'on' | 'off' | 'toggle' | 'blink';
+
+// 'http' = {baseUrl}?num=N&action=on|off|toggle|blink&duration=S
+// 'http-state' = {baseUrl}?num=N&state=ON|OFF|TOGGLE|BLINK (older firmware, no duration)
+// 'mqtt' = publish to {topicPrefix}/{N}/set on the broker at baseUrl (ws:// or wss://)
+export type LampProtocol = 'http' | 'http-state' | 'mqtt';
+
+// A lamp controller board (ESP/Arduino) in the store-level registry
+export interface LampDevice {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. http://192.168.100.120/led, or the broker WebSocket URL for MQTT
+  protocol: LampProtocol;
+  channels: number; // Number of relay channels on the board
+  statusCheck?: boolean; // Board answers status requests (used for reconciliation)
+  secret?: string | null; // Shared HMAC secret; when set every request is signed (see services/lampAuth.ts)
+  // MQTT only
+  topicPrefix?: string | null; // e.g. zyra/lamp/esp1
+  username?: string | null;
+  password?: string | null;
+}
+
+// Lamp that does not match its table (or cannot be reached), kept until resolved.
+// Doc id = tableId in stores/{storeId}/lamp_status.
+export interface LampStatusIssue {
+  id: string;
+  tableId: string;
+  tableName: string;
+  desired: 'on' | 'off';
+  reported: 'on' | 'off' | null; // null = unknown (command failing or board unreachable)
+  error?: string;
+  since: number; // Timestamp the issue was first seen
+  checkedAt: number;
+}
+
+// Reachability of a lamp board, written by the lamp controller (doc id = LampDevice id)
+export interface LampDeviceHealth {
+  id: string;
+  online: boolean;
+  latencyMs?: number;
+  lastSeenAt?: number; // Last successful response
+  checkedAt: number;
+  error?: string;
+}
+
+// Every request the lamp controller sends to a board (stores/{storeId}/lamp_logs)
+export interface LampLogEntry {
+  id: string;
+  at: number;
+  source: 'state' | 'command';
+  action: LampAction;
+  tableId?: string;
+  tableName?: string;
+  lampDeviceId?: string;
+  deviceName?: string;
+  channel?: number;
+  actuatorName?: string; // Set for actuators other than the table lamp
+  ok: boolean;
+  latencyMs?: number;
+  error?: string;
+  controllerId: string; // Device id of the lamp controller
+}
+
+// Session moments an actuator reacts to. 'stop' also covers a paused table; 'warning'
+// is the pre-expiry warning (one-off), the others are states the controller keeps applied.
+export type ActuatorTrigger = 'start' | 'warning' | 'expiry' | 'stop';
+
+export type ActuatorKind = 'lamp' | 'scoreboard' | 'ball-lock' | 'socket' | 'custom';
+
+// Something on a table driven by a board channel, e.g. scoreboard, ball-return lock, charger socket
+export interface TableActuator {
+  id: string;
+  kind: ActuatorKind;
+  name: string;
+  lampDeviceId: string; // Board in the registry (lamp_devices)
+  channel: number;
+  triggers: Partial<Record<ActuatorTrigger, LampAction>>; // Missing = nothing sent on that trigger
+  sendDuration: boolean; // 'on' at start carries the remaining seconds so the board switches off itself
+}
+
+// One-off lamp actions (e.g. blink) that are not derived from table state
+export interface LampCommand {
+  id: string;
+  tableId: string; // '' when the command targets a board channel directly
+  lampDeviceId?: string; // Direct channel test (Perangkat screen)
+  channel?: number;
+  actuatorIds?: string[]; // Run on these actuators of the table instead of the table lamp
+  trigger?: ActuatorTrigger; // With actuatorIds: use each actuator's action for this trigger
+  action: LampAction;
+  durationSec?: number;
+  status: 'pending' | 'sent' | 'done' | 'failed' | 'expired';
+  createdAt: number;
+  createdBy: string;
+  executedBy?: string; // Device id of the controller
+  executedAt?: number;
+  error?: string;
+}